@@ -1,183 +1,126 @@
-import React, { useState, useEffect, useRef, Suspense, useCallback } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
 import { ParticleSystem } from './components/ParticleSystem';
 import { Controls } from './components/Controls';
 import { HolographicHUD } from './components/HolographicHUD';
-import { ParticleShape } from './types';
-import { HandService, ContinuousHandMetrics } from './services/handService';
-import { HandMetricsExtractor } from './services/handMetrics';
-
-// Default empty metrics
-const createEmptyMetrics = (): ContinuousHandMetrics => ({
-  isPresent: false,
-  confidence: 0,
-  position: { x: 0, y: 0, z: 0 },
-  velocity: { x: 0, y: 0, z: 0 },
-  speed: 0,
-  openness: 0.6,
-  pinchStrength: 0,
-  pinchPosition: { x: 0, y: 0, z: 0 },
-  fingerSpread: 0,
-  palmNormal: { x: 0, y: 0, z: 1 },
-  palmFacingCamera: 1,
-  palmTilt: 0,
-  thumbCurl: 0,
-  indexCurl: 0,
-  middleCurl: 0,
-  ringCurl: 0,
-  pinkyCurl: 0,
-  pointDirection: { x: 0, y: -1, z: 0 },
-  pointStrength: 0,
-  gripStrength: 0,
-  energy: 0,
-  tension: 0,
-  expressiveness: 0,
-  depth: 0,
-  handSize: 0,
-  landmarks: [],
-});
+import { SessionPanel } from './components/SessionPanel';
+import { PosePanel } from './components/PosePanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { CameraPanel } from './components/CameraPanel';
+import { BindingsPanel } from './components/BindingsPanel';
+import { OutputPanel } from './components/OutputPanel';
+import { ExternalPanel } from './components/ExternalPanel';
+import { MotionType, ParticleShape } from './types';
+import { GestureEvent } from './services/gestureTracker';
+import { MotionEvent } from './services/motionRecognizer';
+import { CustomPoseEvent } from './services/poseClassifier';
+import { HandInputSource, InputSourceError, InputSourceStatus } from './services/inputSource';
+import { metricsStore } from './services/metricsStore';
+import { useMetricsSelector } from './hooks/useMetrics';
+import { replaySource } from './services/replaySource';
+import { trackingSettings } from './services/trackingSettings';
+import { metricsOutput } from './services/metricsOutput';
+import { ExternalInputSource } from './services/externalSource';
+import { qualityGovernor } from './services/qualityGovernor';
+import {
+  CAMERA_SOURCE_ID,
+  DEFAULT_SOURCE_ID,
+  EXTERNAL_SOURCE_ID,
+  GAMEPAD_SOURCE_ID,
+  KEYBOARD_SOURCE_ID,
+  REPLAY_SOURCE_ID,
+  SIMULATION_SOURCE_ID,
+  TOUCH_SOURCE_ID,
+  getInputSource,
+  getInputSources,
+} from './services/sourceRegistry';
 
 const App: React.FC = () => {
   const [shape, setShape] = useState<ParticleShape>(ParticleShape.GALAXY);
-  const [color, setColor] = useState<string>('#4fc3f7');
-  const [simulationMode, setSimulationMode] = useState(false);
+  const [sourceId, setSourceId] = useState<string>(DEFAULT_SOURCE_ID);
   const [showGuide, setShowGuide] = useState(true);
+  const [fixedTimestep, setFixedTimestep] = useState(false);
+  const [mirror, setMirror] = useState(trackingSettings.get().mirror);
+  const [maxDpr, setMaxDpr] = useState(qualityGovernor.get().tier.dpr);
   
-  const [metrics, setMetrics] = useState<ContinuousHandMetrics>(createEmptyMetrics());
+  // Per-frame metrics live in metricsStore - App only follows what its layout needs
+  const handPresent = useMetricsSelector(frame => frame.primary.isPresent);
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
-  
-  const handServiceRef = useRef<HandService | null>(null);
-  const simulationMetricsRef = useRef(new HandMetricsExtractor());
-  
-  // Mouse tracking for simulation
-  const mousePos = useRef({ x: 0, y: 0 });
-  const lastMousePos = useRef({ x: 0, y: 0 });
-  const mouseButtons = useRef({ left: false, right: false });
+  const [sourceStatus, setSourceStatus] = useState<InputSourceStatus>('idle');
+  const [sourceError, setSourceError] = useState<InputSourceError | null>(null);
+  const [rendererError, setRendererError] = useState<InputSourceError | null>(null);
+  const [startAttempt, setStartAttempt] = useState(0);  // Bumped to retry a failed source
+  const [activeSource, setActiveSource] = useState<HandInputSource | null>(null);
+  // One-shot triggers for ParticleSystem, pushed outside React state
+  const triggerEventsRef = useRef<Array<GestureEvent | MotionEvent | CustomPoseEvent>>([]);
 
-  // Handle mouse for simulation
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (simulationMode) {
-      mousePos.current = {
-        x: (e.clientX / window.innerWidth - 0.5) * 2,
-        y: -(e.clientY / window.innerHeight - 0.5) * 2,
-      };
-    }
-  }, [simulationMode]);
+  const sourceDescriptor = getInputSource(sourceId) ?? getInputSource(DEFAULT_SOURCE_ID)!;
+  const simulationMode = sourceDescriptor.simulated;
+  const wheelDrivesSpread = sourceDescriptor.id === SIMULATION_SOURCE_ID;  // Mouse mode - no wheel zoom
+  const touchDrivesHand = sourceDescriptor.id === TOUCH_SOURCE_ID;         // Touch mode - no drag orbit or pinch zoom
+  const externalSource = activeSource instanceof ExternalInputSource ? activeSource : null;
 
-  const handleMouseDown = useCallback((e: MouseEvent) => {
-    if (simulationMode) {
-      if (e.button === 0) mouseButtons.current.left = true;
-      if (e.button === 2) mouseButtons.current.right = true;
-    }
-  }, [simulationMode]);
+  useEffect(() => trackingSettings.subscribe(s => setMirror(s.mirror)), []);
+  useEffect(() => qualityGovernor.subscribe(q => setMaxDpr(q.tier.dpr)), []);
 
-  const handleMouseUp = useCallback((e: MouseEvent) => {
-    if (e.button === 0) mouseButtons.current.left = false;
-    if (e.button === 2) mouseButtons.current.right = false;
+  // Stream metrics to external tools (when enabled in the output panel)
+  useEffect(() => {
+    metricsOutput.start();
+    return () => metricsOutput.stop();
   }, []);
 
-  const handleContextMenu = useCallback((e: MouseEvent) => {
-    if (simulationMode) e.preventDefault();
-  }, [simulationMode]);
-
+  // The guide goes away for good once a hand has been seen
   useEffect(() => {
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mousedown', handleMouseDown);
-    window.addEventListener('mouseup', handleMouseUp);
-    window.addEventListener('contextmenu', handleContextMenu);
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mousedown', handleMouseDown);
-      window.removeEventListener('mouseup', handleMouseUp);
-      window.removeEventListener('contextmenu', handleContextMenu);
-    };
-  }, [handleMouseMove, handleMouseDown, handleMouseUp, handleContextMenu]);
+    if (handPresent) setShowGuide(false);
+  }, [handPresent]);
 
-  // Simulation mode update
+  // Active input source
   useEffect(() => {
-    if (!simulationMode) return;
+    const source = sourceDescriptor.create();
 
-    let energy = 0;
-    let smoothOpenness = 0.6;
-    let smoothPinch = 0;
-    let smoothGrip = 0;
-    
-    const updateSimulation = () => {
-      const dx = mousePos.current.x - lastMousePos.current.x;
-      const dy = mousePos.current.y - lastMousePos.current.y;
-      const speed = Math.sqrt(dx * dx + dy * dy) * 30;
-      
-      energy = Math.min(1, energy * 0.97 + speed * 0.5);
-      lastMousePos.current = { ...mousePos.current };
-
-      // Mouse controls:
-      // - Position = mouse position
-      // - Left click = pinch (close fingers)
-      // - Right click = grip (curl fingers)
-      // - Wheel could control spread (todo)
-      
-      const targetOpenness = mouseButtons.current.left ? 0.1 : 
-                            mouseButtons.current.right ? 0.3 : 0.8;
-      const targetPinch = mouseButtons.current.left ? 1 : 0;
-      const targetGrip = mouseButtons.current.right ? 0.9 : 0;
-      
-      smoothOpenness += (targetOpenness - smoothOpenness) * 0.15;
-      smoothPinch += (targetPinch - smoothPinch) * 0.2;
-      smoothGrip += (targetGrip - smoothGrip) * 0.15;
-
-      setMetrics({
-        isPresent: true,
-        confidence: 0.95,
-        position: { x: mousePos.current.x, y: mousePos.current.y, z: 0 },
-        velocity: { x: dx * 60, y: dy * 60, z: 0 },
-        speed: Math.min(1, speed / 5),
-        openness: smoothOpenness,
-        pinchStrength: smoothPinch,
-        pinchPosition: { x: mousePos.current.x, y: mousePos.current.y, z: 0 },
-        fingerSpread: smoothOpenness * 0.5,
-        palmNormal: { x: 0, y: 0, z: 1 },
-        palmFacingCamera: 1,
-        palmTilt: mousePos.current.x * 0.3,
-        thumbCurl: smoothPinch * 0.5,
-        indexCurl: 1 - smoothOpenness,
-        middleCurl: 1 - smoothOpenness + smoothGrip * 0.3,
-        ringCurl: 1 - smoothOpenness + smoothGrip * 0.4,
-        pinkyCurl: 1 - smoothOpenness + smoothGrip * 0.5,
-        pointDirection: { x: mousePos.current.x, y: mousePos.current.y, z: -1 },
-        pointStrength: smoothOpenness > 0.5 && !mouseButtons.current.left ? 0.5 : 0,
-        gripStrength: smoothGrip,
-        energy,
-        tension: smoothPinch * 0.5 + smoothGrip * 0.5,
-        expressiveness: Math.abs(smoothOpenness - 0.6) + smoothPinch * 0.3 + speed * 0.2,
-        depth: 0, // Simulation stays at reference depth
-        handSize: 0.15,
-        landmarks: [], // Empty for simulation
-      });
-    };
-
-    const interval = setInterval(updateSimulation, 16);
-    return () => clearInterval(interval);
-  }, [simulationMode]);
-
-  // Real hand tracking
-  useEffect(() => {
-    if (simulationMode) return;
-
-    const handService = new HandService((data) => {
-      setMetrics(data);
-      if (data.isPresent) setShowGuide(false);
+    const unsubscribe = source.subscribe((frame) => metricsStore.set(frame));
+    const unsubscribeStatus = source.onStatusChange((status, error) => {
+      setSourceStatus(status);
+      setSourceError(error);
+    });
+    const unsubscribeGestures = source.subscribeGestures((event) => {
+      triggerEventsRef.current.push(event);
+    });
+    const unsubscribeMotions = source.subscribeMotions((event) => {
+      triggerEventsRef.current.push(event);
+      // Swipes cycle through the shapes
+      if (event.motion === MotionType.SWIPE_LEFT || event.motion === MotionType.SWIPE_RIGHT) {
+        const step = event.motion === MotionType.SWIPE_RIGHT ? 1 : -1;
+        setShape((current) => {
+          const shapes = Object.values(ParticleShape);
+          return shapes[(shapes.indexOf(current) + step + shapes.length) % shapes.length];
+        });
+      }
     });
-    handServiceRef.current = handService;
+    const unsubscribeCustomPoses = source.subscribeCustomPoses((event) => {
+      triggerEventsRef.current.push(event);
+    });
+    setActiveSource(source);
 
-    handService.initialize().then(() => {
-      setVideoElement(handService.getVideoElement());
+    source.start().then(() => {
+      setVideoElement(source.getVideoElement());
     });
 
     return () => {
-      handService.stop();
+      unsubscribe();
+      unsubscribeStatus();
+      unsubscribeGestures();
+      unsubscribeMotions();
+      unsubscribeCustomPoses();
+      source.stop();
+      setSourceStatus('idle');
+      setSourceError(null);
+      setActiveSource(null);
+      setVideoElement(null);
+      metricsStore.reset();
     };
-  }, [simulationMode]);
+  }, [sourceDescriptor, startAttempt]);
 
   return (
     <div className="relative w-screen h-screen bg-black overflow-hidden">
@@ -185,37 +128,85 @@ const App: React.FC = () => {
       <Controls 
         currentShape={shape} 
         setShape={setShape} 
-        color={color} 
-        setColor={setColor}
-        metrics={metrics}
-        simulationMode={simulationMode}
-        setSimulationMode={setSimulationMode}
+        sources={getInputSources()}
+        sourceId={sourceDescriptor.id}
+        setSourceId={setSourceId}
+        sourceStatus={sourceStatus}
+        fixedTimestep={fixedTimestep}
+        setFixedTimestep={setFixedTimestep}
       />
       
+      <div className="absolute top-24 right-6 z-20 w-64 max-h-[calc(100vh-7rem)] overflow-y-auto space-y-2 pointer-events-auto">
+        {/* Camera Device and Format */}
+        {sourceDescriptor.id === CAMERA_SOURCE_ID && <CameraPanel status={sourceStatus} />}
+
+        {/* External Tracker Address and Link */}
+        {sourceDescriptor.id === EXTERNAL_SOURCE_ID && <ExternalPanel source={externalSource} />}
+
+        {/* Keyboard / Gamepad Bindings */}
+        {sourceDescriptor.id === KEYBOARD_SOURCE_ID && <BindingsPanel device="keyboard" />}
+        {sourceDescriptor.id === GAMEPAD_SOURCE_ID && <BindingsPanel device="gamepad" />}
+
+        {/* Session Recording / Replay */}
+        <SessionPanel
+          source={activeSource}
+          canRecord={sourceDescriptor.id !== REPLAY_SOURCE_ID}
+          isReplaying={sourceDescriptor.id === REPLAY_SOURCE_ID}
+          onSessionLoaded={(session) => {
+            replaySource.load(session);
+            setSourceId(REPLAY_SOURCE_ID);
+          }}
+        />
+
+        {/* User-Trained Poses */}
+        <PosePanel source={activeSource} />
+
+        {/* Per-User Calibration */}
+        <CalibrationPanel source={activeSource} canCalibrate={!simulationMode} />
+
+        {/* Metrics Output to External Tools */}
+        <OutputPanel />
+      </div>
+      
       {/* Holographic HUD */}
       <HolographicHUD 
-        metrics={metrics}
         videoElement={videoElement}
         simulationMode={simulationMode}
+        mirror={mirror}
+        link={externalSource}
       />
       
       {/* 3D Canvas */}
       <Canvas
         camera={{ position: [0, 0, 12], fov: 60 }}
-        dpr={[1, 2]}
+        dpr={[1, maxDpr]}
         gl={{ antialias: false, alpha: false }}
+        onCreated={({ gl }) => {
+          const canvas = gl.domElement;
+          canvas.addEventListener('webglcontextlost', (e) => {
+            e.preventDefault();  // Allow the browser to restore the context
+            setRendererError(new InputSourceError('webgl-lost'));
+          });
+          canvas.addEventListener('webglcontextrestored', () => setRendererError(null));
+        }}
       >
         <color attach="background" args={['#020205']} />
         
         <Suspense fallback={null}>
-          <ParticleSystem shape={shape} color={color} metrics={metrics} />
+          <ParticleSystem
+            shape={shape}
+            triggerEvents={triggerEventsRef}
+            fixedTimestep={fixedTimestep}
+            onError={setRendererError}
+          />
           <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
         </Suspense>
 
         <OrbitControls 
-          enableZoom={true} 
+          enableZoom={!wheelDrivesSpread && !touchDrivesHand}
+          enableRotate={!touchDrivesHand}
           enablePan={false} 
-          autoRotate={!metrics.isPresent} 
+          autoRotate={!handPresent} 
           autoRotateSpeed={0.5} 
           minDistance={5}
           maxDistance={20}
@@ -226,20 +217,44 @@ const App: React.FC = () => {
 
       {/* Guide Overlay */}
       <GuideOverlay 
-        isVisible={showGuide && !metrics.isPresent && !simulationMode} 
+        isVisible={(showGuide || sourceError !== null) && !handPresent && !simulationMode} 
+        status={sourceStatus}
+        error={sourceError}
+        onRetry={() => setStartAttempt((n) => n + 1)}
         onDismiss={() => setShowGuide(false)}
         onEnableSimulation={() => {
-          setSimulationMode(true);
+          setSourceId(SIMULATION_SOURCE_ID);
           setShowGuide(false);
         }}
       />
       
+      {/* Renderer Failure */}
+      {rendererError && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 pointer-events-auto">
+          <div className="flex flex-col items-center space-y-3 text-center">
+            <p className="text-sm text-red-300">{rendererError.message}</p>
+            <p className="text-[10px] text-white/40">
+              {rendererError.code === 'webgl-lost'
+                ? 'Aguardando o navegador restaurar os gráficos...'
+                : 'Tente outro navegador ou dispositivo'}
+            </p>
+            <button
+              onClick={() => window.location.reload()}
+              className="px-4 py-2 bg-white/5 border border-white/20 rounded-lg
+                         text-white/60 text-sm hover:bg-white/10 transition-all"
+            >
+              Recarregar
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Simulation Mode Banner */}
       {simulationMode && (
         <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-30 pointer-events-none">
           <div className="bg-purple-500/20 border border-purple-400/50 px-4 py-2 rounded-full backdrop-blur-sm">
             <span className="text-purple-300 text-sm font-mono">
-              🎮 SIMULAÇÃO • Clique esquerdo = Pinça • Direito = Garra
+              {sourceDescriptor.icon} SIMULAÇÃO{sourceDescriptor.hint && ` • ${sourceDescriptor.hint}`}
             </span>
           </div>
         </div>
@@ -251,9 +266,12 @@ const App: React.FC = () => {
 // Guide Component
 const GuideOverlay: React.FC<{ 
   isVisible: boolean; 
+  status: InputSourceStatus;
+  error: InputSourceError | null;
+  onRetry: () => void;
   onDismiss: () => void;
   onEnableSimulation: () => void;
-}> = ({ isVisible, onDismiss, onEnableSimulation }) => {
+}> = ({ isVisible, status, error, onRetry, onDismiss, onEnableSimulation }) => {
   const controls = [
     { icon: '✋', name: 'Abertura', desc: 'Abre/fecha partículas' },
     { icon: '🤏', name: 'Pinça', desc: 'Atrai para um ponto' },
@@ -294,12 +312,28 @@ const GuideOverlay: React.FC<{
       </div>
       
       <div className="flex flex-col items-center space-y-3 pointer-events-auto">
-        <div className="flex items-center space-x-2 text-xs text-white/40">
-          <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-          <span>Aguardando câmera...</span>
-        </div>
+        {error ? (
+          <div className="flex items-center space-x-2 text-xs text-red-300">
+            <span className="w-2 h-2 bg-red-500 rounded-full" />
+            <span>{error.message}</span>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2 text-xs text-white/40">
+            <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+            <span>{status === 'running' ? 'Mostre sua mão para a câmera' : 'Aguardando câmera...'}</span>
+          </div>
+        )}
         
         <div className="flex space-x-3">
+          {error && (
+            <button
+              onClick={onRetry}
+              className="px-4 py-2 bg-cyan-500/20 border border-cyan-400/50 rounded-lg
+                         text-cyan-300 text-sm hover:bg-cyan-500/30 transition-all"
+            >
+              Tentar novamente
+            </button>
+          )}
           <button
             onClick={onEnableSimulation}
             className="px-4 py-2 bg-purple-500/20 border border-purple-400/50 rounded-lg
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import {
+  GAMEPAD_AXIS_LABELS,
+  GAMEPAD_BUTTON_LABELS,
+  GamepadAxisAction,
+  GamepadButtonAction,
+  KEY_ACTION_LABELS,
+  KeyAction,
+  controlBindings,
+} from '../services/controlBindings';
+import { getActiveGamepad } from '../services/gamepadSource';
+
+interface BindingsPanelProps {
+  device: 'keyboard' | 'gamepad';
+}
+
+type Listening =
+  | { kind: 'key'; action: KeyAction }
+  | { kind: 'axis'; action: GamepadAxisAction }
+  | { kind: 'button'; action: GamepadButtonAction };
+
+const AXIS_THRESHOLD = 0.6;  // How far a stick must move to be picked
+
+const formatKey = (code: string) => {
+  if (code === 'Space') return 'Espaço';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Arrow')) return { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' }[code] ?? code;
+  return code.replace(/(Left|Right)$/, '');
+};
+
+/**
+ * Show and rebind the keyboard or gamepad controls - click a binding, then
+ * press the new key, button or move the stick
+ */
+export const BindingsPanel: React.FC<BindingsPanelProps> = ({ device }) => {
+  const [bindings, setBindings] = useState(controlBindings.get());
+  const [listening, setListening] = useState<Listening | null>(null);
+
+  useEffect(() => controlBindings.subscribe(setBindings), []);
+  useEffect(() => setListening(null), [device]);
+
+  // Capture the next key
+  useEffect(() => {
+    if (listening?.kind !== 'key') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code !== 'Escape') controlBindings.setKey(listening.action, e.code);
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listening]);
+
+  // Capture the next gamepad button or stick movement
+  useEffect(() => {
+    if (listening === null || listening.kind === 'key') return;
+    const pad = getActiveGamepad();
+    // Ignore what is already held when listening starts
+    const heldButtons = new Set(pad?.buttons.flatMap((b, i) => (b.pressed ? [i] : [])) ?? []);
+    const restingAxes = pad?.axes.slice() ?? [];
+    let frame = 0;
+
+    const poll = () => {
+      const current = getActiveGamepad();
+      if (current) {
+        if (listening.kind === 'button') {
+          const index = current.buttons.findIndex((b, i) => b.pressed && !heldButtons.has(i));
+          if (index >= 0) {
+            controlBindings.setGamepadButton(listening.action, index);
+            setListening(null);
+            return;
+          }
+        } else {
+          const index = current.axes.findIndex((v, i) => Math.abs(v - (restingAxes[i] ?? 0)) > AXIS_THRESHOLD);
+          if (index >= 0) {
+            controlBindings.setGamepadAxis(listening.action, index);
+            setListening(null);
+            return;
+          }
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening]);
+
+  const isListening = (kind: Listening['kind'], action: string) =>
+    listening?.kind === kind && listening.action === action;
+
+  const row = (key: string, label: string, value: string, active: boolean, onClick: () => void) => (
+    <div key={key} className="flex items-center justify-between text-[10px]">
+      <span className="text-gray-400">{label}</span>
+      <button
+        onClick={active ? () => setListening(null) : onClick}
+        className={`min-w-[3.5rem] px-1.5 py-0.5 rounded border font-mono transition-all ${
+          active
+            ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300 animate-pulse'
+            : 'bg-white/5 border-white/20 text-white hover:bg-white/10'
+        }`}
+      >
+        {active ? '...' : value}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <h3 className="text-[10px] text-gray-400 uppercase tracking-wider">
+        {device === 'keyboard' ? 'Teclas' : 'Controle'}
+      </h3>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {device === 'keyboard'
+          ? (Object.keys(KEY_ACTION_LABELS) as KeyAction[]).map((action) =>
+              row(action, KEY_ACTION_LABELS[action], formatKey(bindings.keyboard[action]),
+                isListening('key', action), () => setListening({ kind: 'key', action })))
+          : (
+            <>
+              {(Object.keys(GAMEPAD_AXIS_LABELS) as GamepadAxisAction[]).map((action) =>
+                row(`axis-${action}`, GAMEPAD_AXIS_LABELS[action], `Eixo ${bindings.gamepadAxes[action]}`,
+                  isListening('axis', action), () => setListening({ kind: 'axis', action })))}
+              {(Object.keys(GAMEPAD_BUTTON_LABELS) as GamepadButtonAction[]).map((action) =>
+                row(`button-${action}`, GAMEPAD_BUTTON_LABELS[action], `Botão ${bindings.gamepadButtons[action]}`,
+                  isListening('button', action), () => setListening({ kind: 'button', action })))}
+            </>
+          )}
+      </div>
+
+      {listening && (
+        <p className="text-[10px] text-cyan-300/70">
+          {listening.kind === 'key' ? 'Pressione uma tecla (Esc cancela)' :
+           listening.kind === 'axis' ? 'Mova um analógico' : 'Aperte um botão'}
+        </p>
+      )}
+
+      <button
+        onClick={() => controlBindings.reset()}
+        className="w-full py-1 rounded-lg text-[10px] transition-all border
+                   bg-white/5 border-white/20 text-gray-400 hover:bg-white/10"
+      >
+        Restaurar padrão
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { HandInputSource } from '../services/inputSource';
+import { Vector3 } from '../types';
+import {
+  CALIBRATION_STEPS,
+  CalibrationCapture,
+  DEFAULT_CALIBRATION,
+  buildCalibrationProfile,
+  calibrationStore,
+} from '../services/calibration';
+
+interface CalibrationPanelProps {
+  source: HandInputSource | null;
+  canCalibrate: boolean;     // Only a real tracked hand makes sense to calibrate
+}
+
+const PREPARE_MS = 2000;     // Time to get into the pose before capture
+const CAPTURE_MS = 1500;
+
+/**
+ * Pick the active calibration profile or record a new one
+ */
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ source, canCalibrate }) => {
+  const [profiles, setProfiles] = useState(calibrationStore.getProfiles());
+  const [activeId, setActiveId] = useState(calibrationStore.getActive().id);
+  const [wizardOpen, setWizardOpen] = useState(false);
+
+  useEffect(() => calibrationStore.subscribe(() => {
+    setProfiles(calibrationStore.getProfiles());
+    setActiveId(calibrationStore.getActive().id);
+  }), []);
+
+  return (
+    <>
+      <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+        <h3 className="text-[10px] text-gray-400 uppercase tracking-wider">Calibração</h3>
+        <div className="flex space-x-1.5">
+          <select
+            value={activeId}
+            onChange={(e) => calibrationStore.setActive(e.target.value)}
+            className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                       text-[10px] text-white focus:outline-none focus:border-cyan-400"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id} className="bg-slate-900">
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          {activeId !== DEFAULT_CALIBRATION.id && (
+            <button
+              onClick={() => calibrationStore.remove(activeId)}
+              className="px-1.5 text-[10px] text-gray-500 hover:text-red-400"
+              title="Remover perfil"
+            >
+              ✕
+            </button>
+          )}
+          <button
+            onClick={() => setWizardOpen(true)}
+            disabled={!source || !canCalibrate}
+            className="px-2 py-1 rounded-lg text-[10px] font-medium transition-all border
+                       bg-white/5 border-white/20 text-gray-400 hover:bg-white/10 disabled:opacity-30"
+          >
+            Calibrar
+          </button>
+        </div>
+      </div>
+
+      {wizardOpen && source && (
+        <CalibrationWizard source={source} onClose={() => setWizardOpen(false)} />
+      )}
+    </>
+  );
+};
+
+const emptyCapture = (): CalibrationCapture => ({
+  open: [], fist: [], pinch: [], spread: [], near: [], far: [],
+});
+
+// Guided capture, one pose per step
+const CalibrationWizard: React.FC<{
+  source: HandInputSource;
+  onClose: () => void;
+}> = ({ source, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [phase, setPhase] = useState<'prepare' | 'capture'>('prepare');
+  const [progress, setProgress] = useState(0);
+  const [capture, setCapture] = useState<CalibrationCapture>(emptyCapture);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const step = CALIBRATION_STEPS[stepIndex];
+  const finished = stepIndex >= CALIBRATION_STEPS.length;
+
+  // Wait, then collect the first tracked hand for this step
+  useEffect(() => {
+    if (finished) return;
+    let startTime: number | null = null;
+    let captured: Vector3[][] = [];
+
+    const unsubscribe = source.subscribeRaw((detections, timestamp) => {
+      if (startTime === null) startTime = timestamp;
+      const elapsed = timestamp - startTime;
+
+      if (elapsed < PREPARE_MS) {
+        setPhase('prepare');
+        setProgress(elapsed / PREPARE_MS);
+        return;
+      }
+
+      setPhase('capture');
+      setProgress(Math.min(1, (elapsed - PREPARE_MS) / CAPTURE_MS));
+      if (detections[0]) captured.push(detections[0].landmarks);
+
+      if (elapsed >= PREPARE_MS + CAPTURE_MS) {
+        const frames = captured;
+        captured = [];
+        startTime = Infinity;  // Ignore frames until the next step subscribes
+        setCapture((current) => ({ ...current, [step.id]: frames }));
+        setStepIndex((i) => i + 1);
+      }
+    });
+
+    return unsubscribe;
+  }, [source, stepIndex]);
+
+  const restart = () => {
+    setCapture(emptyCapture());
+    setError(null);
+    setStepIndex(0);
+  };
+
+  const save = () => {
+    try {
+      calibrationStore.save(buildCalibrationProfile(name.trim() || 'Meu perfil', capture));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha na calibração');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-80 bg-slate-900/90 border border-white/10 p-5 rounded-2xl shadow-2xl space-y-4 text-center">
+        <div className="flex justify-between text-[10px] text-gray-500">
+          <span>Calibração</span>
+          <span>{Math.min(stepIndex + 1, CALIBRATION_STEPS.length)} / {CALIBRATION_STEPS.length}</span>
+        </div>
+
+        {!finished ? (
+          <>
+            <div className="text-5xl">{step.icon}</div>
+            <p className="text-sm text-white/80">{step.instruction}</p>
+            <p className={`text-[10px] ${phase === 'capture' ? 'text-red-300' : 'text-cyan-300/70'}`}>
+              {phase === 'capture' ? '● Capturando...' : 'Prepare-se...'}
+            </p>
+            <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${phase === 'capture' ? 'bg-red-400' : 'bg-cyan-400'}`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-white/80">Pronto! Dê um nome ao perfil.</p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              placeholder="Meu perfil"
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1.5
+                         text-xs text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+            />
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+            <div className="flex space-x-2">
+              <button
+                onClick={restart}
+                className="flex-1 py-1.5 rounded-lg text-xs border bg-white/5 border-white/20 text-gray-400 hover:bg-white/10"
+              >
+                Refazer
+              </button>
+              <button
+                onClick={save}
+                className="flex-1 py-1.5 rounded-lg text-xs border bg-cyan-500/20 border-cyan-400 text-cyan-300 hover:bg-cyan-500/30"
+              >
+                Salvar
+              </button>
+            </div>
+          </>
+        )}
+
+        <button onClick={onClose} className="text-[10px] text-gray-500 hover:text-white">
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+};
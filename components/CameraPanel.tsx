@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { InputSourceStatus } from '../services/inputSource';
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  CameraResolution,
+  cameraSettings,
+  listCameras,
+} from '../services/cameraSettings';
+
+interface CameraPanelProps {
+  status: InputSourceStatus;
+}
+
+const selectClass = `w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                     text-[10px] text-white focus:outline-none focus:border-cyan-400 disabled:opacity-30`;
+
+/**
+ * Pick the camera and its resolution and frame rate - applied live
+ */
+export const CameraPanel: React.FC<CameraPanelProps> = ({ status }) => {
+  const [settings, setSettings] = useState(cameraSettings.get());
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const running = status === 'running';
+  const switching = status === 'starting';
+
+  useEffect(() => cameraSettings.subscribe(setSettings), []);
+
+  // Device labels only show up once permission is granted, so list again when the camera runs
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listCameras().then((list) => {
+        if (!cancelled) setDevices(list);
+      });
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [running]);
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <h3 className="text-[10px] text-gray-400 uppercase tracking-wider">Câmera</h3>
+
+      <select
+        value={settings.deviceId ?? ''}
+        onChange={(e) => cameraSettings.update({ deviceId: e.target.value || null })}
+        disabled={switching}
+        className={selectClass}
+      >
+        <option value="" className="bg-slate-900">Padrão do sistema</option>
+        {devices.map((device, i) => (
+          <option key={device.deviceId || i} value={device.deviceId} className="bg-slate-900">
+            {device.label || `Câmera ${i + 1}`}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex space-x-1.5">
+        <select
+          value={settings.resolution}
+          onChange={(e) => cameraSettings.update({ resolution: e.target.value as CameraResolution })}
+          disabled={switching}
+          className={selectClass}
+        >
+          {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map((resolution) => (
+            <option key={resolution} value={resolution} className="bg-slate-900">
+              {resolution}
+            </option>
+          ))}
+        </select>
+        <select
+          value={settings.frameRate}
+          onChange={(e) => cameraSettings.update({ frameRate: Number(e.target.value) })}
+          disabled={switching}
+          className={selectClass}
+        >
+          {CAMERA_FRAME_RATES.map((fps) => (
+            <option key={fps} value={fps} className="bg-slate-900">
+              {fps} fps
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,57 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ParticleShape } from '../types';
-import { ContinuousHandMetrics } from '../services/handMetrics';
+import { InputSourceDescriptor, InputSourceStatus } from '../services/inputSource';
+import { MAX_GRACE_PERIOD, MAX_PREDICTION_AMOUNT, trackingSettings } from '../services/trackingSettings';
+import { QUALITY_TIERS, qualitySettings } from '../services/qualitySettings';
+import { qualityGovernor } from '../services/qualityGovernor';
+import { PaletteEditor } from './PaletteEditor';
+import { useHandMetrics } from '../hooks/useMetrics';
 
 interface ControlsProps {
   currentShape: ParticleShape;
   setShape: (shape: ParticleShape) => void;
-  color: string;
-  setColor: (color: string) => void;
-  metrics: ContinuousHandMetrics;
-  simulationMode: boolean;
-  setSimulationMode: (mode: boolean) => void;
+  sources: InputSourceDescriptor[];
+  sourceId: string;
+  setSourceId: (id: string) => void;
+  sourceStatus: InputSourceStatus;
+  fixedTimestep: boolean;
+  setFixedTimestep: (fixed: boolean) => void;
 }
 
+const STATUS_COLORS: Record<InputSourceStatus, string> = {
+  idle: '#666666',
+  starting: '#ffaa00',
+  running: '#00ff88',
+  error: '#ff4444',
+};
+
 export const Controls: React.FC<ControlsProps> = ({
   currentShape,
   setShape,
-  color,
-  setColor,
-  metrics,
-  simulationMode,
-  setSimulationMode,
+  sources,
+  sourceId,
+  setSourceId,
+  sourceStatus,
+  fixedTimestep,
+  setFixedTimestep,
 }) => {
-  const m = metrics;
+  const m = useHandMetrics();
+  const activeSource = sources.find(s => s.id === sourceId);
+  const [settings, setSettings] = useState(trackingSettings.get());
+
+  const [quality, setQuality] = useState(qualitySettings.get());
+  const [governor, setGovernor] = useState({ ...qualityGovernor.get(), frameRate: 0 });
+
+  useEffect(() => trackingSettings.subscribe(setSettings), []);
+  useEffect(() => qualitySettings.subscribe(setQuality), []);
+
+  // Frame rate changes every frame - poll it
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setGovernor({ ...qualityGovernor.get(), frameRate: qualityGovernor.getFrameRate() });
+    }, 500);
+    return () => clearInterval(timer);
+  }, []);
   
   // Dynamic status based on metrics
   const getStatusText = () => {
@@ -157,22 +187,37 @@ export const Controls: React.FC<ControlsProps> = ({
       <div className="pointer-events-auto self-center md:self-end md:mb-10 w-full max-w-xs">
         <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-5 rounded-2xl shadow-2xl">
           
-          {/* Mode Toggle */}
+          {/* Input Source Picker */}
           <div className="mb-4 pb-4 border-b border-white/10">
-            <button
-              onClick={() => setSimulationMode(!simulationMode)}
-              className={`w-full py-2 px-4 rounded-lg text-sm font-medium transition-all ${
-                simulationMode 
-                  ? 'bg-purple-500/30 border border-purple-400 text-purple-300' 
-                  : 'bg-white/5 border border-white/20 text-gray-400 hover:bg-white/10'
-              }`}
-            >
-              {simulationMode ? '🎮 Mouse Ativo' : '📷 Câmera'}
-            </button>
+            <label className="flex items-center justify-between text-cyan-300 text-xs font-bold uppercase tracking-wider mb-2">
+              <span>Entrada</span>
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: STATUS_COLORS[sourceStatus] }}
+                title={sourceStatus}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-1.5">
+              {sources.map((source) => (
+                <button
+                  key={source.id}
+                  onClick={() => setSourceId(source.id)}
+                  className={`py-2 px-2 rounded-lg text-xs font-medium transition-all border ${
+                    source.id === sourceId
+                      ? source.simulated
+                        ? 'bg-purple-500/30 border-purple-400 text-purple-300'
+                        : 'bg-cyan-500/20 border-cyan-400 text-white'
+                      : 'bg-white/5 border-white/20 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {source.icon} {source.label}
+                </button>
+              ))}
+            </div>
             
-            {simulationMode && (
+            {activeSource?.hint && (
               <p className="text-[10px] text-purple-300/60 mt-2 text-center">
-                Clique esquerdo = Pinça | Direito = Garra
+                {activeSource.hint}
               </p>
             )}
           </div>
@@ -200,31 +245,117 @@ export const Controls: React.FC<ControlsProps> = ({
             </div>
           </div>
 
-          {/* Color Picker */}
+          {/* Color Palette */}
+          <div className="mb-4">
+            <PaletteEditor shape={currentShape} />
+          </div>
+
+          {/* Physics Integration */}
           <div className="mb-4">
             <label className="block text-cyan-300 text-xs font-bold uppercase tracking-wider mb-2">
-              Cor
+              Física
             </label>
-            <div className="flex items-center space-x-3">
+            <div className="grid grid-cols-2 gap-1.5">
+              {[
+                { fixed: false, label: 'Passo variável' },
+                { fixed: true, label: 'Passo fixo' },
+              ].map(({ fixed, label }) => (
+                <button
+                  key={label}
+                  onClick={() => setFixedTimestep(fixed)}
+                  className={`px-2 py-1.5 text-[10px] rounded-lg transition-all duration-200 border ${
+                    fixedTimestep === fixed
+                      ? 'bg-cyan-500/20 border-cyan-400 text-white'
+                      : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Render Quality: tier and adaptive governor */}
+          <div className="mb-4">
+            <label className="flex items-center justify-between text-cyan-300 text-xs font-bold uppercase tracking-wider mb-2">
+              <span>Qualidade</span>
+              <span className="text-[10px] font-normal text-gray-500 normal-case">
+                {governor.frameRate > 0 ? `${governor.tier.label} · ${Math.round(governor.frameRate)} fps` : governor.tier.label}
+              </span>
+            </label>
+            <div className="grid grid-cols-4 gap-1.5">
+              {QUALITY_TIERS.map((tier) => (
+                <button
+                  key={tier.id}
+                  onClick={() => qualitySettings.update({ tier: tier.id })}
+                  title={`${Math.round(tier.particles / 1000)}k partículas`}
+                  className={`px-1 py-1.5 text-[10px] rounded-lg transition-all duration-200 border ${
+                    quality.tier === tier.id
+                      ? 'bg-cyan-500/20 border-cyan-400 text-white'
+                      : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {tier.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => qualitySettings.update({ adaptive: !quality.adaptive })}
+              title="Reduz a qualidade abaixo da escolhida enquanto os quadros estiverem lentos"
+              className={`mt-2 w-full px-2 py-1.5 text-[10px] rounded-lg transition-all duration-200 border ${
+                quality.adaptive
+                  ? 'bg-cyan-500/20 border-cyan-400 text-white'
+                  : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              ⚡ Ajuste automático
+            </button>
+          </div>
+
+          {/* Tracking: latency compensation and mirroring */}
+          <div className="mb-4">
+            <label className="flex items-center justify-between text-cyan-300 text-xs font-bold uppercase tracking-wider mb-2">
+              <span>Rastreamento</span>
+              <span className="text-[10px] font-normal text-gray-500 normal-case">
+                {m.latency > 0 ? `latência ${Math.round(m.latency * 1000)} ms` : 'sem latência medida'}
+              </span>
+            </label>
+            <div className="flex items-center space-x-2">
+              <span className="text-[10px] text-gray-400">Predição</span>
               <input
-                type="color"
-                value={color}
-                onChange={(e) => setColor(e.target.value)}
-                className="w-8 h-8 rounded-full cursor-pointer bg-transparent border-none p-0 overflow-hidden"
+                type="range"
+                min={0}
+                max={MAX_PREDICTION_AMOUNT}
+                step={0.05}
+                value={settings.predictionAmount}
+                onChange={(e) => trackingSettings.update({ predictionAmount: Number(e.target.value) })}
+                className="flex-1 accent-cyan-400"
               />
-              <div className="flex space-x-1">
-                {['#00ffff', '#ff00ff', '#ffff00', '#00ff88', '#ff4444', '#ffffff'].map((c) => (
-                  <button
-                    key={c}
-                    onClick={() => setColor(c)}
-                    className={`w-5 h-5 rounded-full border transition-transform hover:scale-125 ${
-                      color === c ? 'border-white scale-110' : 'border-white/20'
-                    }`}
-                    style={{ backgroundColor: c }}
-                  />
-                ))}
-              </div>
+              <span className="w-12 text-right text-[10px] text-gray-400">{Math.round(settings.predictionAmount * 100)}%</span>
+            </div>
+            <div className="mt-1 flex items-center space-x-2" title="Por quanto tempo uma mão perdida continua sendo estimada">
+              <span className="text-[10px] text-gray-400">Tolerância</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_GRACE_PERIOD}
+                step={0.05}
+                value={settings.gracePeriod}
+                onChange={(e) => trackingSettings.update({ gracePeriod: Number(e.target.value) })}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="w-12 text-right text-[10px] text-gray-400">{Math.round(settings.gracePeriod * 1000)} ms</span>
             </div>
+            <button
+              onClick={() => trackingSettings.update({ mirror: !settings.mirror })}
+              className={`mt-2 w-full px-2 py-1.5 text-[10px] rounded-lg transition-all duration-200 border ${
+                settings.mirror
+                  ? 'bg-cyan-500/20 border-cyan-400 text-white'
+                  : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              ⇋ Espelhar câmera
+            </button>
           </div>
 
           {/* Live Metrics (when hand present) */}
@@ -247,9 +378,7 @@ export const Controls: React.FC<ControlsProps> = ({
           <div className="mt-3 pt-3 border-t border-white/10 text-[10px] text-gray-500 text-center">
             {m.isPresent 
               ? `Tensão: ${Math.round(m.tension * 100)}% | Velocidade: ${m.speed.toFixed(2)}`
-              : simulationMode 
-                ? 'Mova o mouse e use os botões'
-                : 'Mostre sua mão para a câmera'}
+              : activeSource?.idleText}
           </div>
         </div>
       </div>
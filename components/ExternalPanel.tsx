@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalInputSource, LinkInfo } from '../services/externalSource';
+import { externalTrackerSettings } from '../services/externalSettings';
+
+interface ExternalPanelProps {
+  source: ExternalInputSource | null;
+}
+
+const LINK_LABELS: Record<LinkInfo['state'], { text: string; color: string }> = {
+  connecting: { text: 'conectando...', color: '#facc15' },
+  live: { text: 'recebendo', color: '#22c55e' },
+  stale: { text: 'conectado, sem dados', color: '#fb923c' },
+  reconnecting: { text: 'sem conexão, tentando de novo', color: '#ef4444' },
+};
+
+/**
+ * Address of the external tracker and how the link is doing
+ */
+export const ExternalPanel: React.FC<ExternalPanelProps> = ({ source }) => {
+  const [settings, setSettings] = useState(externalTrackerSettings.get());
+  const [url, setUrl] = useState(settings.url);
+  const [link, setLink] = useState<LinkInfo | null>(source?.getLinkInfo() ?? null);
+
+  useEffect(() => externalTrackerSettings.subscribe(setSettings), []);
+
+  // Link state changes with every frame, so poll it instead of re-rendering per frame
+  useEffect(() => {
+    if (!source) return;
+    const refresh = () => setLink(source.getLinkInfo());
+    refresh();
+    const interval = setInterval(refresh, 500);
+    return () => clearInterval(interval);
+  }, [source]);
+
+  // Reconnect only once the address is typed out
+  const commitUrl = () => {
+    if (url.trim() && url.trim() !== settings.url) externalTrackerSettings.update({ url: url.trim() });
+  };
+
+  const label = link ? LINK_LABELS[link.state] : null;
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <h3 className="flex items-center justify-between text-[10px] text-gray-400 uppercase tracking-wider">
+        <span>Rastreador Externo</span>
+        {label && link && (
+          <span className="flex items-center space-x-1 normal-case">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: label.color }} />
+            <span>{link.state === 'live' ? `${label.text} • ${Math.round(link.frameRate)} fps` : label.text}</span>
+          </span>
+        )}
+      </h3>
+
+      <input
+        type="text"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        onBlur={commitUrl}
+        onKeyDown={(e) => e.key === 'Enter' && commitUrl()}
+        placeholder="ws://localhost:9990"
+        className="w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                   text-[10px] text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+      />
+    </div>
+  );
+};
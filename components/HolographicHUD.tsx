@@ -1,12 +1,22 @@
 import React, { useRef, useEffect } from 'react';
-import { ContinuousHandMetrics } from '../services/handMetrics';
+import { metricsStore } from '../services/metricsStore';
+import { ExternalInputSource, LinkState } from '../services/externalSource';
+import { GESTURE_EFFECTS, GestureType } from '../types';
 
 interface HolographicHUDProps {
-  metrics: ContinuousHandMetrics;
   videoElement: HTMLVideoElement | null;
   simulationMode?: boolean;
+  mirror: boolean;           // Camera video is shown mirrored (landmarks already follow the setting)
+  link?: Pick<ExternalInputSource, 'getLinkInfo'> | null;  // External tracker connection, if that is the source
 }
 
+const LINK_INDICATORS: Record<LinkState, { color: string; text: string }> = {
+  connecting: { color: '#ffdd00', text: '⇄ CONECTANDO' },
+  live: { color: '#00ff88', text: '⇄ LINK' },
+  stale: { color: '#ffaa00', text: '⇄ SEM DADOS' },
+  reconnecting: { color: '#ff4444', text: '⇄ RECONECTANDO' },
+};
+
 // Draw meter helper function
 const drawMeter = (
   ctx: CanvasRenderingContext2D,
@@ -30,9 +40,10 @@ const drawMeter = (
 };
 
 export const HolographicHUD: React.FC<HolographicHUDProps> = ({ 
-  metrics, 
   videoElement, 
-  simulationMode 
+  simulationMode,
+  mirror,
+  link,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>(0);
@@ -49,7 +60,8 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
     const draw = () => {
       timeRef.current += 0.016;
       const time = timeRef.current;
-      const m = metrics;
+      // Read the latest frame each tick - tracking updates never restart this loop
+      const { primary: m, gesture } = metricsStore.get();
 
       canvas.width = 320;
       canvas.height = 240;
@@ -100,8 +112,12 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
       if (!simulationMode && videoElement && videoElement.readyState >= 2) {
         ctx.save();
         ctx.globalAlpha = 0.5;
-        ctx.translate(vizX + vizW, vizY);
-        ctx.scale(-1, 1);
+        if (mirror) {
+          ctx.translate(vizX + vizW, vizY);
+          ctx.scale(-1, 1);
+        } else {
+          ctx.translate(vizX, vizY);
+        }
         ctx.filter = 'hue-rotate(180deg) saturate(0.4)';
         ctx.drawImage(videoElement, 0, 0, vizW, vizH);
         ctx.filter = 'none';
@@ -156,9 +172,9 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
           if (m.landmarks[a] && m.landmarks[b]) {
             const la = m.landmarks[a];
             const lb = m.landmarks[b];
-            const x1 = offsetX + (1 - (la.x / 2 + 0.5)) * scaleX;
+            const x1 = offsetX + (la.x / 2 + 0.5) * scaleX;
             const y1 = offsetY + (1 - (la.y / 2 + 0.5)) * scaleY;
-            const x2 = offsetX + (1 - (lb.x / 2 + 0.5)) * scaleX;
+            const x2 = offsetX + (lb.x / 2 + 0.5) * scaleX;
             const y2 = offsetY + (1 - (lb.y / 2 + 0.5)) * scaleY;
             
             ctx.beginPath();
@@ -170,7 +186,7 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
 
         // Draw landmark points
         m.landmarks.forEach((lm, i) => {
-          const x = offsetX + (1 - (lm.x / 2 + 0.5)) * scaleX;
+          const x = offsetX + (lm.x / 2 + 0.5) * scaleX;
           const y = offsetY + (1 - (lm.y / 2 + 0.5)) * scaleY;
           const isTip = [4, 8, 12, 16, 20].includes(i);
           
@@ -202,14 +218,47 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
         ctx.fillText('SIMULAÇÃO', vizX + 40, vizY + vizH - 5);
       }
 
+      // External tracker connection
+      if (link) {
+        const info = link.getLinkInfo();
+        const indicator = LINK_INDICATORS[info.state];
+        ctx.font = 'bold 8px "Courier New"';
+        ctx.fillStyle = indicator.color;
+        ctx.textAlign = 'right';
+        ctx.fillText(
+          info.state === 'live' ? `${indicator.text} ${Math.round(info.frameRate)}Hz` : indicator.text,
+          vizX + vizW - 4, vizY + vizH - 5
+        );
+        ctx.textAlign = 'left';
+      }
+
+      // === ACTIVE GESTURE ===
+      if (gesture.gesture !== GestureType.NONE) {
+        const effect = GESTURE_EFFECTS[gesture.gesture];
+        ctx.font = '14px sans-serif';
+        ctx.fillText(effect.icon, vizX + 4, vizY + 16);
+        ctx.font = 'bold 9px "Courier New"';
+        ctx.fillStyle = effect.color;
+        ctx.shadowBlur = 6;
+        ctx.shadowColor = effect.color;
+        ctx.fillText(effect.name.toUpperCase(), vizX + 24, vizY + 13);
+        ctx.shadowBlur = 0;
+        drawMeter(ctx, vizX + 24, vizY + 16, 40, 2, gesture.confidence, effect.color);
+      }
+
       // === SECTION 2: METRICS PANEL (Left side) ===
       const panelX = 10;
       const panelY = 20;
 
       // Status
       ctx.font = 'bold 10px "Courier New"';
-      ctx.fillStyle = m.isPresent ? '#00ff88' : '#ff4444';
-      ctx.fillText(m.isPresent ? '● ONLINE' : '○ OFFLINE', panelX, panelY - 5);
+      const status = {
+        tracking: { color: '#00ff88', text: '● ONLINE' },
+        predicting: { color: '#ffaa00', text: '◐ PREDIÇÃO' },
+        lost: { color: '#ff4444', text: '○ OFFLINE' },
+      }[m.trackingState];
+      ctx.fillStyle = status.color;
+      ctx.fillText(status.text, panelX, panelY - 5);
 
       // Main control labels
       ctx.font = '9px "Courier New"';
@@ -343,7 +392,7 @@ export const HolographicHUD: React.FC<HolographicHUDProps> = ({
     return () => {
       cancelAnimationFrame(animationRef.current);
     };
-  }, [metrics, videoElement, simulationMode]);
+  }, [videoElement, simulationMode, mirror, link]);
 
   return (
     <div className="absolute bottom-6 left-6 z-20">
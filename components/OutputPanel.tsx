@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { OutputStatus, metricsOutput } from '../services/metricsOutput';
+import { OUTPUT_RATES, OutputProtocol, outputSettings } from '../services/outputSettings';
+
+const selectClass = `w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                     text-[10px] text-white focus:outline-none focus:border-cyan-400`;
+
+const STATUS_LABELS: Record<OutputStatus, { text: string; color: string }> = {
+  off: { text: 'desligado', color: '#6b7280' },
+  connecting: { text: 'conectando...', color: '#facc15' },
+  connected: { text: 'transmitindo', color: '#22c55e' },
+  error: { text: 'sem conexão, tentando de novo', color: '#ef4444' },
+};
+
+/**
+ * Stream hand metrics to TouchDesigner, Max, lighting desks... over
+ * WebSocket, as JSON or OSC
+ */
+export const OutputPanel: React.FC = () => {
+  const [settings, setSettings] = useState(outputSettings.get());
+  const [status, setStatus] = useState(metricsOutput.getStatus());
+  const [url, setUrl] = useState(settings.url);
+
+  useEffect(() => outputSettings.subscribe(setSettings), []);
+  useEffect(() => metricsOutput.onStatusChange(setStatus), []);
+
+  // Reconnect only once the address is typed out
+  const commitUrl = () => {
+    if (url.trim() && url.trim() !== settings.url) outputSettings.update({ url: url.trim() });
+  };
+
+  const statusLabel = STATUS_LABELS[status];
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <h3 className="flex items-center justify-between text-[10px] text-gray-400 uppercase tracking-wider">
+        <span>Saída</span>
+        <span className="flex items-center space-x-1 normal-case">
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: statusLabel.color }} />
+          <span>{statusLabel.text}</span>
+        </span>
+      </h3>
+
+      <div className="flex space-x-1.5">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onBlur={commitUrl}
+          onKeyDown={(e) => e.key === 'Enter' && commitUrl()}
+          placeholder="ws://localhost:9980"
+          className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                     text-[10px] text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+        />
+        <button
+          onClick={() => {
+            commitUrl();
+            outputSettings.update({ enabled: !settings.enabled });
+          }}
+          className={`px-2 py-1 rounded-lg text-[10px] font-medium transition-all border ${
+            settings.enabled
+              ? 'bg-cyan-500/20 border-cyan-400 text-white'
+              : 'bg-white/5 border-white/20 text-gray-400 hover:bg-white/10'
+          }`}
+        >
+          {settings.enabled ? '■ Parar' : '▶ Enviar'}
+        </button>
+      </div>
+
+      <div className="flex space-x-1.5">
+        <select
+          value={settings.protocol}
+          onChange={(e) => outputSettings.update({ protocol: e.target.value as OutputProtocol })}
+          className={selectClass}
+        >
+          <option value="json" className="bg-slate-900">JSON</option>
+          <option value="osc" className="bg-slate-900">OSC</option>
+        </select>
+        <select
+          value={settings.rate}
+          onChange={(e) => outputSettings.update({ rate: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {OUTPUT_RATES.map((rate) => (
+            <option key={rate} value={rate} className="bg-slate-900">
+              {rate} Hz
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={() => outputSettings.update({ landmarks: !settings.landmarks })}
+        className={`w-full px-2 py-1 text-[10px] rounded-lg transition-all duration-200 border ${
+          settings.landmarks
+            ? 'bg-cyan-500/20 border-cyan-400 text-white'
+            : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+        }`}
+      >
+        Incluir landmarks
+      </button>
+    </div>
+  );
+};
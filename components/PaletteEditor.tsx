@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ParticleShape } from '../types';
+import {
+  MAX_STOPS,
+  MIN_STOPS,
+  PALETTE_INDEXES,
+  PaletteStop,
+  downloadPalettes,
+  paletteGradientCss,
+  paletteLibrary,
+  samplePalette,
+} from '../services/palettes';
+
+interface PaletteEditorProps {
+  shape: ParticleShape;
+}
+
+const toHex = (rgb: number[]) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const buttonClass = (active: boolean) =>
+  `px-1 py-1.5 text-[10px] rounded-lg transition-all duration-200 border ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-400 text-white'
+      : 'bg-white/5 border-transparent text-gray-500 hover:bg-white/10 hover:text-white'
+  }`;
+
+/**
+ * Pick, edit and share the gradient of the current shape, and choose what
+ * indexes into it
+ */
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ shape }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [state, setState] = useState(paletteLibrary.getState());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => paletteLibrary.subscribe(setState), []);
+
+  const active = paletteLibrary.getShapePalette(shape);
+  const hasCustom = state.palettes.some(p => !p.builtin);
+
+  const setStops = (stops: PaletteStop[]) => paletteLibrary.updatePalette(active.id, { stops });
+
+  const updateStop = (index: number, changes: Partial<PaletteStop>) => {
+    setStops(active.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+  };
+
+  // New stop in the middle of the widest gap, in the color already there
+  const addStop = () => {
+    const positions = active.stops.map(s => s.position).sort((a, b) => a - b);
+    let position = 0.5;
+    let widest = 0;
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] - positions[i - 1] > widest) {
+        widest = positions[i] - positions[i - 1];
+        position = (positions[i] + positions[i - 1]) / 2;
+      }
+    }
+    setStops([...active.stops, { position, color: toHex(samplePalette(active, position)) }]);
+  };
+
+  const editCopy = () => {
+    const copy = paletteLibrary.duplicatePalette(active);
+    paletteLibrary.setShapePalette(shape, copy.id);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      paletteLibrary.importJSON(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao importar paletas');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between text-cyan-300 text-xs font-bold uppercase tracking-wider">
+        <span>Paleta</span>
+        <span className="text-[10px] font-normal text-gray-500 normal-case">{shape}</span>
+      </label>
+
+      <div className="grid grid-cols-4 gap-1.5">
+        {state.palettes.map((palette) => (
+          <button
+            key={palette.id}
+            onClick={() => paletteLibrary.setShapePalette(shape, palette.id)}
+            title={palette.name}
+            className={`h-5 rounded-md border transition-transform hover:scale-105 ${
+              palette.id === active.id ? 'border-white' : 'border-white/20'
+            }`}
+            style={{ background: paletteGradientCss(palette) }}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-[10px] text-gray-400 shrink-0">Cor por</span>
+        <div className="flex-1 grid grid-cols-4 gap-1">
+          {PALETTE_INDEXES.map(({ id, label }) => (
+            <button key={id} onClick={() => paletteLibrary.setIndex(id)} className={buttonClass(state.index === id)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {active.builtin ? (
+        <button onClick={editCopy} className={`w-full ${buttonClass(false)}`}>
+          ✎ Editar uma cópia de {active.name}
+        </button>
+      ) : (
+        <div className="space-y-1.5">
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => paletteLibrary.updatePalette(active.id, { name: e.target.value })}
+            className="w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                       text-[10px] text-white focus:outline-none focus:border-cyan-400"
+          />
+          {active.stops.map((stop, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) => updateStop(i, { color: e.target.value })}
+                className="w-5 h-5 rounded-full cursor-pointer bg-transparent border-none p-0 overflow-hidden shrink-0"
+              />
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={stop.position}
+                onChange={(e) => updateStop(i, { position: Number(e.target.value) })}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="w-8 text-right text-[10px] text-gray-400">{Math.round(stop.position * 100)}%</span>
+              <button
+                onClick={() => setStops(active.stops.filter((_, j) => j !== i))}
+                disabled={active.stops.length <= MIN_STOPS}
+                className="text-[10px] text-gray-500 hover:text-red-400 disabled:opacity-30"
+                title="Remover parada"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-1.5">
+            <button onClick={addStop} disabled={active.stops.length >= MAX_STOPS} className={`${buttonClass(false)} disabled:opacity-30`}>
+              ＋ Parada
+            </button>
+            <button onClick={() => paletteLibrary.removePalette(active.id)} className={buttonClass(false)}>
+              Excluir paleta
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex space-x-1.5">
+        <button
+          onClick={() => downloadPalettes()}
+          disabled={!hasCustom}
+          className="flex-1 py-1 rounded-lg text-[10px] transition-all border
+                     bg-white/5 border-white/20 text-gray-400 hover:bg-white/10 disabled:opacity-30"
+        >
+          ⤓ Exportar
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 py-1 rounded-lg text-[10px] transition-all border
+                     bg-white/5 border-white/20 text-gray-400 hover:bg-white/10"
+        >
+          ⤒ Importar
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
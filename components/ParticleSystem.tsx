@@ -1,17 +1,68 @@
 import React, { useEffect, useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { ParticleShape } from '../types';
-import { ContinuousHandMetrics } from '../services/handMetrics';
+import { GESTURE_EFFECTS, GestureType, MOTION_EFFECTS, MotionType, ParticleShape, Vector3 } from '../types';
+import { metricsStore } from '../services/metricsStore';
+import { GestureEvent } from '../services/gestureTracker';
+import { CustomPoseEvent } from '../services/poseClassifier';
+import { MotionEvent } from '../services/motionRecognizer';
 import { generateGeometry } from '../services/geometryService';
+import { ParticleSimulation } from '../services/particleSimulation';
+import { PARTICLE_BUDGET, PARTICLE_TEXTURE_SIZE } from '../services/qualitySettings';
+import { qualityGovernor } from '../services/qualityGovernor';
+import { PALETTE_RAMP_SIZE, paletteLibrary, writePaletteRamp } from '../services/palettes';
+import { InputSourceError } from '../services/inputSource';
+import {
+  EFFECT_IDS,
+  MAX_ATTRACTORS,
+  PALETTE_INDEX_IDS,
+  POINTS_FRAGMENT_SHADER,
+  POINTS_VERTEX_SHADER,
+} from '../services/particleShaders';
 
 interface ParticleSystemProps {
   shape: ParticleShape;
-  color: string;
-  metrics: ContinuousHandMetrics;
+  triggerEvents: React.MutableRefObject<Array<GestureEvent | MotionEvent | CustomPoseEvent>>;  // Queue drained every frame
+  fixedTimestep: boolean;    // Integrate in fixed substeps instead of one variable step per frame
+  onError: (error: InputSourceError) => void;  // The GPU cannot run the simulation
 }
 
-const COUNT = 15000;
+interface ParticleFieldProps extends Omit<ParticleSystemProps, 'onError'> {
+  simulation: ParticleSimulation;
+}
+
+const SHAPE_SPAN = 7; // Approximate diameter of the base shapes
+const EFFECT_DURATION = 1.4; // Seconds a one-shot effect lasts
+const COUNT_RAMP_S = 2;      // Seconds to go from no particles to the full budget on a tier change
+const FADE_BAND = 4096;      // Particles shrinking in or out at the edge of the visible count
+const SPEED_COLOR = '#fff3d6'; // Fast particles heat toward this
+const PINCH_COLOR = '#ff00ff'; // Particles caught in a pinch
+const PRESENCE_EASE = 4;     // Hand-driven colors fade in and out at this rate (1/s)
+
+// Physics constants are tuned per frame at this rate and scaled by the real frame time
+const REFERENCE_FPS = 60;
+const FIXED_STEP = 1 / 120;   // Substep length in fixed-timestep mode (s)
+const MAX_SUBSTEPS = 8;
+const MAX_FRAME_DELTA = 0.1;  // Longer gaps (tab switch, hitch) are clamped
+
+const SWIPE_DIRECTIONS: Partial<Record<MotionType, Vector3>> = {
+  [MotionType.SWIPE_LEFT]: { x: -1, y: 0, z: 0 },
+  [MotionType.SWIPE_RIGHT]: { x: 1, y: 0, z: 0 },
+  [MotionType.SWIPE_UP]: { x: 0, y: 1, z: 0 },
+  [MotionType.SWIPE_DOWN]: { x: 0, y: -1, z: 0 },
+};
+
+const CUSTOM_POSE_EFFECT = 'customPose';
+
+interface OneShotEffect {
+  kind: GestureType | MotionType | typeof CUSTOM_POSE_EFFECT;
+  start: number;             // Clock time (s)
+  x: number;                 // Origin in scene space
+  y: number;
+  z: number;
+  direction: Vector3;
+  color: THREE.Color;
+}
 
 /**
  * Continuous Control Particle System
@@ -24,297 +75,289 @@ const COUNT = 15000;
  * - FINGER SPREAD: Controls particle dispersion/chaos
  * - GRIP: Controls rotation speed and vortex effect
  * - PALM TILT: Controls directional flow
- * - ENERGY: Controls particle size and brightness
+ * - ENERGY: Controls particle size
  * - POINT: Creates directional beam
+ * - TWO HANDS: Stretches the shape between the hands, each hand pinches on its own
+ * - GESTURES / MOTIONS / CUSTOM POSES: Each discrete gesture, movement or trained pose fires a one-shot effect
+ * - PALETTE: Each particle takes its color from the shape's gradient, indexed by radius, speed, hand distance or time
+ * - SPEED / HAND / PINCH / DEPTH: Color, size and alpha of each particle (see `POINTS_VERTEX_SHADER`)
+ *
+ * Physics is integrated with the real frame time (optionally in fixed
+ * substeps), so the same gesture moves particles the same on any display.
+ * It runs on the GPU (`ParticleSimulation`) - this component only turns the
+ * metrics into uniforms. Without float render targets nothing is drawn
+ * and `onError` is told.
  */
-export const ParticleSystem: React.FC<ParticleSystemProps> = ({ shape, color, metrics }) => {
-  const pointsRef = useRef<THREE.Points>(null);
-  const materialRef = useRef<THREE.PointsMaterial>(null);
-  
-  // Buffers
-  const currentPositions = useMemo(() => new Float32Array(COUNT * 3), []);
-  const targetPositions = useMemo(() => generateGeometry(shape), [shape]);
-  const velocities = useMemo(() => new Float32Array(COUNT * 3), []);
-  
-  // Per-particle properties
-  const particlePhases = useMemo(() => {
-    const arr = new Float32Array(COUNT);
-    for (let i = 0; i < COUNT; i++) arr[i] = Math.random() * Math.PI * 2;
-    return arr;
-  }, []);
-  
-  const particleSeeds = useMemo(() => {
-    const arr = new Float32Array(COUNT * 3);
-    for (let i = 0; i < COUNT * 3; i++) arr[i] = (Math.random() - 0.5) * 2;
-    return arr;
-  }, []);
-
-  // Initialize positions
-  useEffect(() => {
-    for (let i = 0; i < COUNT * 3; i++) {
-      currentPositions[i] = (Math.random() - 0.5) * 50;
+export const ParticleSystem: React.FC<ParticleSystemProps> = ({ onError, ...props }) => {
+  const { gl } = useThree();
+
+  // Particle state lives on the GPU, sized for the whole budget
+  const simulation = useMemo(() => {
+    try {
+      return new ParticleSimulation(gl, PARTICLE_TEXTURE_SIZE);
+    } catch (err) {
+      console.error(err);
+      return null;
     }
-  }, [currentPositions]);
+  }, [gl]);
 
-  // Update targets when shape changes
   useEffect(() => {
-    const newTargets = generateGeometry(shape);
-    targetPositions.set(newTargets);
-  }, [shape, targetPositions]);
+    if (!simulation) onError(new InputSourceError('gpu-unsupported'));
+    return () => simulation?.dispose();
+  }, [simulation]);
+
+  return simulation ? <ParticleField simulation={simulation} {...props} /> : null;
+};
+
+const ParticleField: React.FC<ParticleFieldProps> = ({
+  shape,
+  triggerEvents,
+  fixedTimestep,
+  simulation,
+}) => {
+  const pointsRef = useRef<THREE.Points>(null);
+  const effectsRef = useRef<OneShotEffect[]>([]);
+  const accumulatorRef = useRef(0);
+  // Particles drawn - follows the quality tier gradually
+  const visibleRef = useRef(qualityGovernor.get().tier.particles);
 
-  // Dynamic color based on metrics
+  // Update targets when shape changes
   useEffect(() => {
-    if (!materialRef.current) return;
-    
-    const baseColor = new THREE.Color(color);
-    
-    if (metrics.isPresent) {
-      // Shift hue based on openness and energy
-      const hsl = { h: 0, s: 0, l: 0 };
-      baseColor.getHSL(hsl);
-      
-      // Energy adds saturation and shifts toward warmer colors
-      hsl.s = Math.min(1, hsl.s + metrics.energy * 0.3);
-      hsl.h = (hsl.h + metrics.pinchStrength * 0.1 - metrics.openness * 0.05 + 1) % 1;
-      
-      baseColor.setHSL(hsl.h, hsl.s, hsl.l);
-    }
-    
-    materialRef.current.color = baseColor;
-  }, [color, metrics.energy, metrics.pinchStrength, metrics.openness, metrics.isPresent]);
-
-  // Particle texture
-  const texture = useMemo(() => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 64;
-    canvas.height = 64;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
-      gradient.addColorStop(0, 'rgba(255,255,255,1)');
-      gradient.addColorStop(0.15, 'rgba(255,255,255,0.8)');
-      gradient.addColorStop(0.4, 'rgba(255,255,255,0.3)');
-      gradient.addColorStop(1, 'rgba(0,0,0,0)');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, 64, 64);
+    simulation.setTargets(generateGeometry(shape, simulation.count));
+  }, [shape, simulation]);
+
+  // Each point only carries the texel of its particle
+  const geometry = useMemo(() => {
+    const references = new Float32Array(simulation.count * 2);
+    for (let i = 0; i < simulation.count; i++) {
+      references[i * 2] = ((i % simulation.size) + 0.5) / simulation.size;
+      references[i * 2 + 1] = (Math.floor(i / simulation.size) + 0.5) / simulation.size;
     }
-    return new THREE.CanvasTexture(canvas);
+    const g = new THREE.BufferGeometry();
+    // Positions come from the texture - this only sets the vertex count
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(simulation.count * 3), 3));
+    g.setAttribute('reference', new THREE.BufferAttribute(references, 2));
+    return g;
+  }, [simulation]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Gradient the particles look their color up in
+  const paletteTexture = useMemo(() => {
+    const ramp = new THREE.DataTexture(new Uint8Array(PALETTE_RAMP_SIZE * 4), PALETTE_RAMP_SIZE, 1);
+    ramp.colorSpace = THREE.SRGBColorSpace;
+    ramp.minFilter = THREE.LinearFilter;
+    ramp.magFilter = THREE.LinearFilter;
+    return ramp;
   }, []);
-
-  useFrame((state) => {
+  useEffect(() => () => paletteTexture.dispose(), [paletteTexture]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uPositions: { value: null },
+      uVelocities: { value: null },
+      uTargets: { value: simulation.getTargetTexture() },
+      uTime: { value: 0 },
+      uSize: { value: 0.12 },
+      uScale: { value: 1 },
+      uVisible: { value: PARTICLE_BUDGET },
+      uFadeBand: { value: FADE_BAND },
+      uPalette: { value: paletteTexture },
+      uPaletteIndex: { value: 0 },
+      uFlashColor: { value: new THREE.Color(0, 0, 0) },
+      uFlashKeep: { value: 1 },
+      uSpeedColor: { value: new THREE.Color(SPEED_COLOR) },
+      uPinchColor: { value: new THREE.Color(PINCH_COLOR) },
+      uHandPresence: { value: 0 },
+      // Same objects as the simulation's - drawn where the physics pulls
+      uHand: simulation.uniforms.uHand,
+      uAttractors: simulation.uniforms.uAttractors,
+      uAttractorCount: simulation.uniforms.uAttractorCount,
+    },
+    vertexShader: POINTS_VERTEX_SHADER,
+    fragmentShader: POINTS_FRAGMENT_SHADER,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  }), [simulation, paletteTexture]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Follow the shape's palette and the index mode
+  useEffect(() => {
+    const apply = () => {
+      writePaletteRamp(paletteLibrary.getShapePalette(shape), paletteTexture.image.data as Uint8Array);
+      paletteTexture.needsUpdate = true;
+      material.uniforms.uPaletteIndex.value = PALETTE_INDEX_IDS[paletteLibrary.getIndex()];
+    };
+    apply();
+    return paletteLibrary.subscribe(apply);
+  }, [shape, paletteTexture, material]);
+
+  useFrame((state, delta) => {
     if (!pointsRef.current) return;
 
-    const positions = pointsRef.current.geometry.attributes.position.array as Float32Array;
+    qualityGovernor.recordFrame(delta);
+    const tier = qualityGovernor.get().tier;
+
     const time = state.clock.getElapsedTime();
-    const m = metrics; // shorthand
+    // Tracking frames are read here, never passed as props, so they do not re-render React
+    const hands = metricsStore.get();
+    const m = hands.primary; // shorthand
+
+    // === ONE-SHOT EFFECTS ===
+    // Start an effect for every gesture or motion since the last frame
+    triggerEvents.current.forEach((event) => {
+      if (event.type === 'gestureEnd' || event.type === 'customPoseEnd') return;
+      if (event.type === 'gestureStart' && event.gesture === GestureType.NONE) return;
+      const origin = { start: time, x: event.position.x * 5, y: event.position.y * 5, z: event.position.z * 4 };
+
+      if (event.type === 'customPoseStart') {
+        effectsRef.current.push({
+          ...origin,
+          kind: CUSTOM_POSE_EFFECT,
+          direction: { x: 0, y: 0, z: 1 },
+          color: new THREE.Color(event.color),
+        });
+      } else if (event.type === 'motion') {
+        effectsRef.current.push({
+          ...origin,
+          kind: event.motion,
+          direction: SWIPE_DIRECTIONS[event.motion] ?? { x: 0, y: 0, z: 1 },
+          color: new THREE.Color(MOTION_EFFECTS[event.motion].color),
+        });
+      } else {
+        effectsRef.current.push({
+          ...origin,
+          kind: event.gesture,
+          direction: event.direction,
+          color: new THREE.Color(GESTURE_EFFECTS[event.gesture].color),
+        });
+      }
+    });
+    triggerEvents.current.length = 0;
+    // The tier caps how many effects run at once - the newest win
+    effectsRef.current = effectsRef.current
+      .filter(fx => time - fx.start < EFFECT_DURATION)
+      .slice(-tier.effects);
+    const effects = effectsRef.current.map((fx) => {
+      const age = time - fx.start;
+      const k = 1 - age / EFFECT_DURATION;
+      return { fx, age, env: k * k };
+    });
+
+    // === TIME STEP ===
+    // stepScale = step length in reference frames, so motion is the same at any refresh rate
+    const frameDelta = Math.min(delta, MAX_FRAME_DELTA);
+    let steps = 1;
+    let stepScale = frameDelta * REFERENCE_FPS;
+    if (fixedTimestep) {
+      accumulatorRef.current += frameDelta;
+      steps = Math.min(MAX_SUBSTEPS, Math.floor(accumulatorRef.current / FIXED_STEP));
+      accumulatorRef.current = Math.min(accumulatorRef.current - steps * FIXED_STEP, FIXED_STEP);
+      stepScale = FIXED_STEP * REFERENCE_FPS;
+    }
 
     // === PHYSICS PARAMETERS DERIVED FROM METRICS ===
-    
+    const u = simulation.uniforms;
+    u.uTime.value = time;
+    u.uHandPresent.value = m.isPresent;
+
     // Base lerp factor - faster when hand is present
     const baseLerp = m.isPresent ? 0.06 : 0.03;
     
     // Damping - less damping = more momentum
     // High grip = more momentum, high openness = more damping
     const baseDamping = 0.9 + m.openness * 0.05 - m.gripStrength * 0.08;
+    // Variable damping, compounded over the step
+    u.uDamping.value = Math.pow(baseDamping - m.energy * 0.05, stepScale);
+    u.uLerp.value = (baseLerp + m.expressiveness * 0.03) * stepScale;
     
     // Hand position in 3D space (scaled)
-    const handX = m.position.x * 5;
-    const handY = m.position.y * 5;
     // Use explicit depth metric for Z, scaled for scene depth
-    // m.position.z already contains depth, but we scale it specifically here
-    const handZ = m.depth * 4;
+    u.uHand.value.set(m.position.x * 5, m.position.y * 5, m.depth * 4);
     
-    // Pinch position
-    const pinchX = m.pinchPosition.x * 5;
-    const pinchY = m.pinchPosition.y * 5;
-    // Pinch Z should follow hand depth + relative finger offset
-    const pinchZ = handZ + m.pinchPosition.z * 3;
+    // Latency-compensated hand position - the beam should feel attached to the finger
+    u.uBeamOrigin.value.set(m.predictedPosition.x * 5, m.predictedPosition.y * 5, m.predictedPosition.z * 4);
+    u.uPointDirection.value.set(m.pointDirection.x, m.pointDirection.y, m.pointDirection.z);
+
+    // Pinch attractors - one per tracked hand, particles are split between them.
+    // They follow the predicted pinch point so they do not trail the fingers.
+    const ih = hands.interHand;
+    const attractorHands = ih.isPresent ? hands.hands.map(h => h.metrics) : [m];
+    attractorHands.slice(0, MAX_ATTRACTORS).forEach((h, i) => {
+      u.uAttractors.value[i].set(
+        h.predictedPinchPosition.x * 5,
+        h.predictedPinchPosition.y * 5,
+        // Pinch Z should follow hand depth + relative finger offset
+        h.depth * 4 + h.predictedPinchPosition.z * 3,
+        h.pinchStrength
+      );
+    });
+    u.uAttractorCount.value = Math.min(MAX_ATTRACTORS, attractorHands.length);
+
+    // === TWO-HAND STRETCH ===
+    // The shape is laid along the axis between the hands, scaled to their
+    // distance and twisted by their relative rotation
+    u.uStretch.value = ih.isPresent;
+    u.uStretchMid.value.set(ih.midpoint.x * 5, ih.midpoint.y * 5, ih.midpoint.z * 4);
+    u.uStretchAxis.value.set(Math.cos(ih.axisAngle), Math.sin(ih.axisAngle));
+    u.uStretchFactor.value = 0.4 + (ih.distance * 5) / SHAPE_SPAN;
+    u.uStretchTwist.value = ih.relativeRotation;
+    u.uShapeSpan.value = SHAPE_SPAN;
 
     // === EXPANSION FACTOR ===
     // Openness directly controls how far particles spread from targets
     // 0 = contracted to point, 1 = full shape, >1 = expanded
-    const expansionFactor = 0.3 + m.openness * 1.2;
+    u.uExpansion.value = 0.3 + m.openness * 1.2;
 
     // === CHAOS/TURBULENCE ===
     // Finger spread and energy add turbulence
-    const turbulence = m.fingerSpread * 0.5 + m.energy * 0.3;
+    u.uTurbulence.value = m.fingerSpread * 0.5 + m.energy * 0.3;
 
     // === VORTEX STRENGTH ===
     // Grip creates rotation/vortex
-    const vortexStrength = m.gripStrength * 2;
+    u.uVortex.value = m.gripStrength * 2;
 
     // === DIRECTIONAL FLOW ===
     // Palm tilt creates sideways drift
-    const driftX = m.palmTilt * m.expressiveness * 0.5;
-    const driftY = m.palmNormal.y * m.expressiveness * 0.3;
-
-    for (let i = 0; i < COUNT; i++) {
-      const i3 = i * 3;
-      const phase = particlePhases[i];
-      const seed = {
-        x: particleSeeds[i3],
-        y: particleSeeds[i3 + 1],
-        z: particleSeeds[i3 + 2],
-      };
-
-      // Current position
-      const px = positions[i3];
-      const py = positions[i3 + 1];
-      const pz = positions[i3 + 2];
-
-      // Base target from shape
-      let tx = targetPositions[i3];
-      let ty = targetPositions[i3 + 1];
-      let tz = targetPositions[i3 + 2];
-
-      // Distance from hand
-      const dxHand = px - handX;
-      const dyHand = py - handY;
-      const dzHand = pz - handZ;
-      const distToHand = Math.sqrt(dxHand * dxHand + dyHand * dyHand + dzHand * dzHand);
-
-      // === BREATHING ANIMATION ===
-      const breath = Math.sin(time * 0.6 + phase) * 0.08 * (1 - m.tension);
-      tx += seed.x * breath;
-      ty += seed.y * breath;
-      tz += seed.z * breath;
-
-      if (m.isPresent) {
-        // === 1. EXPANSION/CONTRACTION ===
-        // Scale target distance from origin based on openness
-        const targetDist = Math.sqrt(tx * tx + ty * ty + tz * tz);
-        if (targetDist > 0.1) {
-          const scaledDist = targetDist * expansionFactor;
-          const scale = scaledDist / targetDist;
-          tx *= scale;
-          ty *= scale;
-          tz *= scale;
-        }
-
-        // === 2. PINCH ATTRACTION ===
-        // Strong pinch creates gravitational attraction to pinch point
-        if (m.pinchStrength > 0.2) {
-          const dxPinch = px - pinchX;
-          const dyPinch = py - pinchY;
-          const dzPinch = pz - pinchZ;
-          const distToPinch = Math.sqrt(dxPinch * dxPinch + dyPinch * dyPinch + dzPinch * dzPinch);
-          
-          // Inverse square attraction
-          const attractionForce = m.pinchStrength * 3 / Math.max(0.5, distToPinch);
-          const attractMix = Math.min(1, attractionForce * 0.3);
-          
-          tx = tx * (1 - attractMix) + pinchX * attractMix;
-          ty = ty * (1 - attractMix) + pinchY * attractMix;
-          tz = tz * (1 - attractMix) + pinchZ * attractMix;
-          
-          // Add spiral when very close
-          if (distToPinch < 2 && m.pinchStrength > 0.5) {
-            const spiralAngle = time * 4 + phase;
-            const spiralRadius = distToPinch * 0.3;
-            tx += Math.cos(spiralAngle) * spiralRadius * m.pinchStrength;
-            tz += Math.sin(spiralAngle) * spiralRadius * m.pinchStrength;
-          }
-        }
-
-        // === 3. VORTEX/ROTATION (GRIP) ===
-        if (m.gripStrength > 0.1 && distToHand < 8) {
-          const proximity = 1 - distToHand / 8;
-          const angle = time * vortexStrength * proximity;
-          const cosA = Math.cos(angle * 0.1);
-          const sinA = Math.sin(angle * 0.1);
-          
-          // Rotate around hand position
-          const relX = tx - handX;
-          const relZ = tz - handZ;
-          tx = handX + relX * cosA - relZ * sinA;
-          tz = handZ + relX * sinA + relZ * cosA;
-          
-          // Add vertical oscillation
-          ty += Math.sin(angle + phase) * proximity * m.gripStrength * 0.5;
-        }
-
-        // === 4. TURBULENCE (FINGER SPREAD) ===
-        if (turbulence > 0.1) {
-          const turbFreq = 3 + m.energy * 5;
-          tx += Math.sin(time * turbFreq + phase * 5) * turbulence * seed.x;
-          ty += Math.cos(time * turbFreq * 1.1 + phase * 5) * turbulence * seed.y;
-          tz += Math.sin(time * turbFreq * 0.9 + phase * 5) * turbulence * seed.z;
-        }
-
-        // === 5. DIRECTIONAL FLOW (PALM TILT) ===
-        tx += driftX;
-        ty += driftY;
-
-        // === 6. POINTING BEAM ===
-        if (m.pointStrength > 0.3) {
-          const beamProximity = Math.max(0, 1 - distToHand / 3);
-          if (beamProximity > 0) {
-            const beamLength = 8 * m.pointStrength;
-            const beamProgress = (i % 100) / 100;
-            
-            // Project along pointing direction
-            const beamX = handX + m.pointDirection.x * beamLength * beamProgress;
-            const beamY = handY + m.pointDirection.y * beamLength * beamProgress;
-            const beamZ = handZ + m.pointDirection.z * beamLength * beamProgress;
-            
-            const beamMix = beamProximity * m.pointStrength * 0.5;
-            tx = tx * (1 - beamMix) + beamX * beamMix;
-            ty = ty * (1 - beamMix) + beamY * beamMix;
-            tz = tz * (1 - beamMix) + beamZ * beamMix;
-            
-            // Add spread along beam
-            tx += seed.x * beamProgress * 0.3;
-            ty += seed.y * beamProgress * 0.3;
-          }
-        }
-
-        // === 7. INDIVIDUAL FINGER EFFECTS ===
-        // Each curled finger adds a subtle wave
-        const fingerWave = (
-          m.indexCurl * Math.sin(time * 2 + phase) +
-          m.middleCurl * Math.sin(time * 2.5 + phase * 1.2) +
-          m.ringCurl * Math.sin(time * 3 + phase * 1.4) +
-          m.pinkyCurl * Math.sin(time * 3.5 + phase * 1.6)
-        ) * 0.1;
-        
-        ty += fingerWave * (1 - m.openness);
-
-        // === 8. VELOCITY-BASED TRAILS ===
-        if (m.speed > 0.1 && distToHand < 5) {
-          const trailStrength = m.speed * (1 - distToHand / 5) * 0.3;
-          tx += m.velocity.x * trailStrength;
-          ty += m.velocity.y * trailStrength;
-        }
-
-        // === 9. TENSION JITTER ===
-        if (m.tension > 0.5) {
-          const jitter = (m.tension - 0.5) * 2 * m.energy;
-          tx += (Math.random() - 0.5) * jitter * 0.3;
-          ty += (Math.random() - 0.5) * jitter * 0.3;
-          tz += (Math.random() - 0.5) * jitter * 0.3;
-        }
-      }
-
-      // === PHYSICS UPDATE ===
-      const lerpFactor = baseLerp + m.expressiveness * 0.03;
-      
-      velocities[i3]     += (tx - px) * lerpFactor;
-      velocities[i3 + 1] += (ty - py) * lerpFactor;
-      velocities[i3 + 2] += (tz - pz) * lerpFactor;
-
-      // Variable damping
-      const damping = baseDamping - m.energy * 0.05;
-      velocities[i3]     *= damping;
-      velocities[i3 + 1] *= damping;
-      velocities[i3 + 2] *= damping;
-
-      // Update positions
-      positions[i3]     += velocities[i3];
-      positions[i3 + 1] += velocities[i3 + 1];
-      positions[i3 + 2] += velocities[i3 + 2];
-    }
-
-    pointsRef.current.geometry.attributes.position.needsUpdate = true;
+    u.uDrift.value.set(m.palmTilt * m.expressiveness * 0.5, m.palmNormal.y * m.expressiveness * 0.3);
+
+    // Remaining per-particle inputs: beam, finger waves, trails and jitter
+    u.uOpenness.value = m.openness;
+    u.uGrip.value = m.gripStrength;
+    u.uEnergy.value = m.energy;
+    u.uTension.value = m.tension;
+    u.uSpeed.value = m.speed;
+    u.uPoint.value = m.pointStrength;
+    u.uFingerCurls.value.set(m.indexCurl, m.middleCurl, m.ringCurl, m.pinkyCurl);
+    u.uHandVelocity.value.set(m.velocity.x, m.velocity.y, m.velocity.z);
+
+    effects.forEach(({ fx, age, env }, i) => {
+      u.uEffectIds.value[i] = EFFECT_IDS[fx.kind];
+      u.uEffectOrigins.value[i].set(fx.x, fx.y, fx.z);
+      u.uEffectDirections.value[i].set(fx.direction.x, fx.direction.y, fx.direction.z);
+      u.uEffectTimes.value[i].set(age, env);
+    });
+    u.uEffectCount.value = effects.length;
+
+    // === PARTICLE COUNT ===
+    // Eased toward the tier's count; only the visible ones are simulated and drawn
+    const rampStep = (PARTICLE_BUDGET / COUNT_RAMP_S) * frameDelta;
+    const visible = visibleRef.current < tier.particles
+      ? Math.min(tier.particles, visibleRef.current + rampStep)
+      : Math.max(tier.particles, visibleRef.current - rampStep);
+    visibleRef.current = visible;
+    simulation.setActiveCount(Math.ceil(visible));
+    geometry.setDrawRange(0, Math.ceil(visible));
+    material.uniforms.uVisible.value = visible;
+
+    // === PHYSICS UPDATE ===
+    for (let s = 0; s < steps; s++) simulation.step(stepScale);
+    material.uniforms.uPositions.value = simulation.getPositionTexture();
+    material.uniforms.uVelocities.value = simulation.getVelocityTexture();
+    material.uniforms.uTime.value = time;
+    const presence = material.uniforms.uHandPresence;
+    presence.value += ((m.isPresent ? 1 : 0) - presence.value) * Math.min(1, frameDelta * PRESENCE_EASE);
+    material.uniforms.uScale.value = state.size.height * state.viewport.dpr * 0.5;
 
     // === SYSTEM ROTATION ===
     const baseRotation = time * 0.03;
@@ -323,35 +366,23 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({ shape, color, me
     pointsRef.current.rotation.z = time * 0.01 + m.palmTilt * 0.3;
 
     // === DYNAMIC PARTICLE SIZE ===
-    if (materialRef.current) {
-      // Size based on energy and openness
-      const baseSize = 0.1;
-      const energyBoost = m.energy * 0.08;
-      const opennessEffect = (1 - m.openness) * 0.03; // Smaller when closed
-      materialRef.current.size = baseSize + energyBoost + opennessEffect;
-    }
+    // Size based on energy and openness
+    const baseSize = 0.1;
+    const energyBoost = m.energy * 0.08;
+    const opennessEffect = (1 - m.openness) * 0.03; // Smaller when closed
+    material.uniforms.uSize.value = baseSize + energyBoost + opennessEffect;
+
+    // Active effects flash their signature color over the palette -
+    // each one blends in on top of the previous: color * keep + flash
+    const flash: THREE.Color = material.uniforms.uFlashColor.value;
+    let keep = 1;
+    flash.setRGB(0, 0, 0);
+    effects.forEach(({ fx, env }) => {
+      flash.lerp(fx.color, env * 0.6);
+      keep *= 1 - env * 0.6;
+    });
+    material.uniforms.uFlashKeep.value = keep;
   });
 
-  return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={COUNT}
-          array={currentPositions}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      <pointsMaterial
-        ref={materialRef}
-        size={0.12}
-        color={color}
-        map={texture}
-        transparent
-        depthWrite={false}
-        blending={THREE.AdditiveBlending}
-        sizeAttenuation={true}
-      />
-    </points>
-  );
+  return <points ref={pointsRef} geometry={geometry} material={material} frustumCulled={false} />;
 };
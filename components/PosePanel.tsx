@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandInputSource } from '../services/inputSource';
+import {
+  CustomPose,
+  PoseRecorder,
+  downloadPoseLibrary,
+  poseClassifier,
+} from '../services/poseClassifier';
+import { useMetricsSelector } from '../hooks/useMetrics';
+
+interface PosePanelProps {
+  source: HandInputSource | null;
+}
+
+const RECORD_MS = 3000;
+const MIN_SAMPLES = 10;
+
+/**
+ * Teach, list and share user-trained poses
+ */
+export const PosePanel: React.FC<PosePanelProps> = ({ source }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [poses, setPoses] = useState<CustomPose[]>(poseClassifier.getPoses());
+  const [name, setName] = useState('');
+  const [recordingName, setRecordingName] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // Only what the list shows, so a held pose re-renders when its percentage changes
+  const activePose = useMetricsSelector(frame => frame.customPose && {
+    poseId: frame.customPose.poseId,
+    percent: Math.round(frame.customPose.confidence * 100),
+  });
+
+  useEffect(() => poseClassifier.subscribe(setPoses), []);
+
+  // Capture the first tracked hand while the pose is held
+  useEffect(() => {
+    if (!source || recordingName === null) return;
+    const recorder = new PoseRecorder(RECORD_MS);
+    let done = false;
+
+    const unsubscribe = source.subscribeRaw((detections, timestamp) => {
+      if (done) return;
+      const hand = detections[0];
+      const complete = hand
+        ? recorder.add(hand.landmarks, hand.handedness, timestamp)
+        : recorder.isComplete(timestamp);
+      setProgress(recorder.getProgress(timestamp));
+      if (!complete) return;
+
+      done = true;
+      const samples = recorder.getSamples();
+      if (samples.length >= MIN_SAMPLES) {
+        poseClassifier.addPose(recordingName, samples);
+        setName('');
+        setError(null);
+      } else {
+        setError('Mão não detectada durante a gravação');
+      }
+      setRecordingName(null);
+    });
+
+    return () => {
+      unsubscribe();
+      setProgress(0);
+    };
+  }, [source, recordingName]);
+
+  const startRecording = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setRecordingName(trimmed);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      poseClassifier.importJSON(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao importar poses');
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <h3 className="text-[10px] text-gray-400 uppercase tracking-wider">Poses Personalizadas</h3>
+
+      <div className="flex space-x-1.5">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && startRecording()}
+          placeholder="Nome da pose"
+          disabled={recordingName !== null}
+          className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1
+                     text-[10px] text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+        />
+        <button
+          onClick={startRecording}
+          disabled={!source || !name.trim() || recordingName !== null}
+          className={`px-2 py-1 rounded-lg text-[10px] font-medium transition-all border ${
+            recordingName !== null
+              ? 'bg-red-500/30 border-red-400 text-red-300 animate-pulse'
+              : 'bg-white/5 border-white/20 text-gray-400 hover:bg-white/10 disabled:opacity-30'
+          }`}
+        >
+          {recordingName !== null ? `${Math.round(progress * 100)}%` : '● Gravar'}
+        </button>
+      </div>
+
+      {recordingName !== null && (
+        <p className="text-[10px] text-cyan-300/70">Mantenha a pose "{recordingName}"...</p>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {poses.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {poses.map((pose) => {
+            const isActive = activePose?.poseId === pose.id;
+            return (
+              <li
+                key={pose.id}
+                className={`flex items-center justify-between text-[10px] px-2 py-1 rounded-lg ${
+                  isActive ? 'bg-white/15 text-white' : 'text-gray-400'
+                }`}
+              >
+                <span className="flex items-center space-x-1.5 truncate">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: pose.color }} />
+                  <span className="truncate">{pose.name}</span>
+                  {isActive && <span className="text-gray-500">{activePose!.percent}%</span>}
+                </span>
+                <button
+                  onClick={() => poseClassifier.removePose(pose.id)}
+                  className="text-gray-500 hover:text-red-400"
+                  title="Remover"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex space-x-1.5">
+        <button
+          onClick={() => downloadPoseLibrary()}
+          disabled={poses.length === 0}
+          className="flex-1 py-1 rounded-lg text-[10px] transition-all border
+                     bg-white/5 border-white/20 text-gray-400 hover:bg-white/10 disabled:opacity-30"
+        >
+          ⤓ Exportar
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 py-1 rounded-lg text-[10px] transition-all border
+                     bg-white/5 border-white/20 text-gray-400 hover:bg-white/10"
+        >
+          ⤒ Importar
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+    </div>
+  );
+};
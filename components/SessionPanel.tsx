@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandInputSource } from '../services/inputSource';
+import { PlaybackState, replaySource } from '../services/replaySource';
+import {
+  SessionRecorder,
+  RecordedSession,
+  downloadSession,
+  parseSession,
+} from '../services/sessionRecording';
+
+interface SessionPanelProps {
+  source: HandInputSource | null;
+  canRecord: boolean;        // Only landmark sources produce raw frames
+  isReplaying: boolean;
+  onSessionLoaded: (session: RecordedSession) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const formatTime = (ms: number) => {
+  const s = ms / 1000;
+  return `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Record raw landmark sessions and control their replay
+ */
+export const SessionPanel: React.FC<SessionPanelProps> = ({
+  source,
+  canRecord,
+  isReplaying,
+  onSessionLoaded,
+}) => {
+  const recorderRef = useRef(new SessionRecorder());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [frameCount, setFrameCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>(replaySource.getPlaybackState());
+
+  const startRecording = () => {
+    recorderRef.current.start();
+    setFrameCount(0);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    const session = recorderRef.current.stop();
+    setIsRecording(false);
+    if (session.frames.length > 0) downloadSession(session);
+  };
+
+  // Feed raw frames from the active source into the recorder
+  useEffect(() => {
+    if (!source || !isRecording) return;
+    const recorder = recorderRef.current;
+    return source.subscribeRaw((detections, timestamp) => {
+      recorder.record(detections, timestamp);
+      setFrameCount(recorder.getFrameCount());
+    });
+  }, [source, isRecording]);
+
+  // Source switched away mid-recording: keep what was captured
+  useEffect(() => {
+    if (!canRecord && isRecording) stopRecording();
+  }, [canRecord]);
+
+  useEffect(() => replaySource.onPlaybackChange(setPlayback), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = parseSession(await file.text());
+      setError(null);
+      onSessionLoaded(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao carregar sessão');
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl border border-white/10 p-3 rounded-xl shadow-2xl space-y-2">
+      <div className="flex space-x-1.5">
+        <button
+          onClick={isRecording ? stopRecording : startRecording}
+          disabled={!canRecord && !isRecording}
+          className={`flex-1 py-1.5 rounded-lg text-[10px] font-medium transition-all border ${
+            isRecording
+              ? 'bg-red-500/30 border-red-400 text-red-300 animate-pulse'
+              : 'bg-white/5 border-white/20 text-gray-400 hover:bg-white/10 disabled:opacity-30'
+          }`}
+        >
+          {isRecording ? `■ Parar (${frameCount})` : '● Gravar'}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 py-1.5 rounded-lg text-[10px] font-medium transition-all border
+                     bg-white/5 border-white/20 text-gray-400 hover:bg-white/10"
+        >
+          📂 Carregar
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {isReplaying && playback.loaded && (
+        <div className="pt-2 border-t border-white/10 space-y-1.5">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => (playback.playing ? replaySource.pause() : replaySource.play())}
+              className="w-6 text-cyan-300 text-sm"
+            >
+              {playback.playing ? '❚❚' : '▶'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={playback.duration}
+              step={10}
+              value={playback.position}
+              onChange={(e) => replaySource.seek(Number(e.target.value))}
+              className="flex-1 accent-cyan-400"
+            />
+          </div>
+          <div className="flex items-center justify-between text-[9px] text-gray-500">
+            <span>{formatTime(playback.position)} / {formatTime(playback.duration)}</span>
+            <div className="flex items-center space-x-1">
+              {SPEEDS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => replaySource.setSpeed(speed)}
+                  className={playback.speed === speed ? 'text-cyan-300' : 'hover:text-white'}
+                >
+                  {speed}x
+                </button>
+              ))}
+              <button
+                onClick={() => replaySource.setLoop(!playback.loop)}
+                className={playback.loop ? 'text-cyan-300' : 'hover:text-white'}
+                title="Repetir"
+              >
+                ⟳
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
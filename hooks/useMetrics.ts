@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { MultiHandMetrics } from '../services/handMetrics';
+import { metricsStore } from '../services/metricsStore';
+
+const DEFAULT_INTERVAL_MS = 100;
+
+// Equal when both are the same value, or objects with identical top-level fields
+export const shallowEqual = <T,>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keysA = Object.keys(a) as Array<keyof T>;
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(key => Object.is(a[key], b[key]));
+};
+
+/**
+ * Subscribe a component to part of the latest tracking frame.
+ *
+ * The selector runs at most once per `intervalMs`, and the component only
+ * re-renders when the selected value changes according to `isEqual`. The
+ * last frame of a burst is always applied, so the UI settles on the final value.
+ */
+export const useMetricsSelector = <T,>(
+  selector: (frame: MultiHandMetrics) => T,
+  intervalMs: number = DEFAULT_INTERVAL_MS,
+  isEqual: (a: T, b: T) => boolean = shallowEqual
+): T => {
+  const [value, setValue] = useState(() => selector(metricsStore.get()));
+  const selectorRef = useRef(selector);
+  const isEqualRef = useRef(isEqual);
+  selectorRef.current = selector;
+  isEqualRef.current = isEqual;
+
+  useEffect(() => {
+    let lastRun = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const apply = () => {
+      timer = null;
+      lastRun = performance.now();
+      const next = selectorRef.current(metricsStore.get());
+      setValue(current => (isEqualRef.current(current, next) ? current : next));
+    };
+
+    // Catch up with anything published between render and subscription
+    apply();
+
+    const unsubscribe = metricsStore.subscribe(() => {
+      if (timer !== null) return;
+      const wait = intervalMs - (performance.now() - lastRun);
+      if (wait <= 0) apply();
+      else timer = setTimeout(apply, wait);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer !== null) clearTimeout(timer);
+    };
+  }, [intervalMs]);
+
+  return value;
+};
+
+// Primary hand metrics for display panels
+export const useHandMetrics = (intervalMs: number = DEFAULT_INTERVAL_MS) =>
+  useMetricsSelector(frame => frame.primary, intervalMs);
@@ -1,5 +1,6 @@
-// Local PostCSS config to stop Vite from inheriting the global config in C:\\
-// that references @tailwindcss/postcss (not used by this project).
+// Tailwind is bundled with the app (no CDN), so the UI also works offline
+import tailwindcss from 'tailwindcss';
+
 export default {
-  plugins: {},
+  plugins: [tailwindcss()],
 };
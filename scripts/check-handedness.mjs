@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Handedness check
+ *
+ * Feeds the same physical hand - a synthetic right hand, palm to the camera -
+ * through a simulated source (landmarks already mirrored) and the camera
+ * path (un-mirrored landmarks, with and without the mirror setting), and
+ * checks that every path agrees: palm facing the camera, the same palm tilt
+ * and the same canonical landmarks for custom poses.
+ *
+ * Usage: npm run check-handedness
+ */
+
+import { createServer } from 'vite';
+
+// Only used to load the TypeScript modules - no dev server, no dependency scan
+const server = await createServer({
+  server: { middlewareMode: true },
+  appType: 'custom',
+  logLevel: 'error',
+  optimizeDeps: { noDiscovery: true, entries: [] },
+});
+let failures = 0;
+
+try {
+  const { MultiHandProcessor, mirrorLandmarks } = await server.ssrLoadModule('/services/multiHandProcessor.ts');
+  const { createNeutralPose, generateHandLandmarks } = await server.ssrLoadModule('/services/syntheticHand.ts');
+  const { canonicalizeLandmarks, normalizeLandmarks } = await server.ssrLoadModule('/services/poseClassifier.ts');
+  const { DEFAULT_TRACKING_SETTINGS } = await server.ssrLoadModule('/services/trackingSettings.ts');
+
+  const check = (label, ok, detail) => {
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+    if (!ok) failures++;
+  };
+
+  const run = (landmarks, mirrorable, mirror) => {
+    const settings = { get: () => ({ ...DEFAULT_TRACKING_SETTINGS, predictionAmount: 0, mirror }) };
+    const processor = new MultiHandProcessor({ mirrorable, settings });
+    let frame = null;
+    // Long enough for the smoothed values to settle
+    for (let i = 0; i < 120; i++) frame = processor.process([{ landmarks, handedness: 'Right', score: 1 }], 1 / 60);
+    return frame.primary;
+  };
+
+  for (const yaw of [0, 0.5]) {
+    const screen = generateHandLandmarks({ ...createNeutralPose(), handedness: 'Right', yaw });
+    const camera = mirrorLandmarks(screen);
+
+    const paths = {
+      simulated: run(screen, false, true),
+      'camera, mirrored': run(camera, true, true),
+      'camera, not mirrored': run(camera, true, false),
+    };
+    Object.entries(paths).forEach(([name, m]) => {
+      check(`yaw ${yaw}: ${name} palm faces camera`, m.palmFacingCamera > 0.9, `palmFacingCamera ${m.palmFacingCamera.toFixed(2)}`);
+    });
+    const simTilt = paths.simulated.palmTilt;
+    const camTilt = paths['camera, mirrored'].palmTilt;
+    check(`yaw ${yaw}: simulated and mirrored camera tilt agree`, Math.abs(simTilt - camTilt) < 1e-6,
+      `${simTilt.toFixed(3)} vs ${camTilt.toFixed(3)}`);
+
+    // The processor canonicalizes what it was given, after its own flip
+    const simPose = normalizeLandmarks(canonicalizeLandmarks(screen, 'Right', true));
+    const camPose = normalizeLandmarks(canonicalizeLandmarks(camera, 'Right', false));
+    const poseDiff = Math.max(...simPose.map((v, i) => Math.abs(v - camPose[i])));
+    check(`yaw ${yaw}: custom pose landmarks match`, poseDiff < 1e-9, `max diff ${poseDiff.toExponential(1)}`);
+  }
+} finally {
+  await server.close();
+}
+
+if (failures) {
+  console.error(`${failures} check(s) failed`);
+  process.exit(1);
+}
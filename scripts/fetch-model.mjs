@@ -0,0 +1,45 @@
+/**
+ * Download the MediaPipe hand landmarker model into public/models, where
+ * services/handLandmarker.ts loads it from.
+ *
+ *   npm run fetch-model [-- --force]
+ *
+ * Does nothing when the model is already there, unless --force is given.
+ * This is the only step that needs the network - afterwards hand tracking
+ * runs offline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const MODEL_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/models/hand_landmarker.task');
+
+const force = process.argv.slice(2).includes('--force');
+
+if (fs.existsSync(MODEL_FILE) && !force) {
+  console.log(`Model already present: ${path.relative(process.cwd(), MODEL_FILE)}`);
+  process.exit(0);
+}
+
+console.log(`Downloading ${MODEL_URL}`);
+let response;
+try {
+  response = await fetch(MODEL_URL, { signal: AbortSignal.timeout(120_000) });
+} catch (err) {
+  console.error(`Download failed: ${err.cause?.message ?? err.message}`);
+  process.exit(1);
+}
+if (!response.ok) {
+  console.error(`Download failed: HTTP ${response.status}`);
+  process.exit(1);
+}
+
+// Written next to the target first, so an interrupted download leaves no broken model
+const data = Buffer.from(await response.arrayBuffer());
+fs.mkdirSync(path.dirname(MODEL_FILE), { recursive: true });
+fs.writeFileSync(`${MODEL_FILE}.partial`, data);
+fs.renameSync(`${MODEL_FILE}.partial`, MODEL_FILE);
+console.log(`Saved ${path.relative(process.cwd(), MODEL_FILE)} (${(data.length / 1e6).toFixed(1)} MB)`);
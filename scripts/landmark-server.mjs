@@ -0,0 +1,75 @@
+/**
+ * Stand-in for an external tracker: replays a recorded session (the JSON
+ * the Sessão panel exports) as live landmark frames to every client.
+ *
+ *   npm run landmark-server -- session.json [--port 9990] [--speed 1] [--once]
+ *
+ * Frames keep their recorded timing and loop forever unless --once is given;
+ * `t` keeps increasing across loops like a live tracker's clock. After
+ * --once the server stays up but silent, which shows as stale in the app.
+ */
+
+import { readFileSync } from 'node:fs';
+import { startWebSocketServer } from './ws-server.mjs';
+
+const SESSION_FORMAT = 'etherial-hand-session';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+};
+const file = args.find((arg, i) => !arg.startsWith('--') && !['--port', '--speed'].includes(args[i - 1]));
+const port = option('--port', 9990);
+const speed = option('--speed', 1);
+const once = args.includes('--once');
+
+if (!file) {
+  console.error('Usage: npm run landmark-server -- <session.json> [--port 9990] [--speed 1] [--once]');
+  process.exit(1);
+}
+
+const session = JSON.parse(readFileSync(file, 'utf8'));
+if (session.format !== SESSION_FORMAT || !Array.isArray(session.frames) || session.frames.length === 0) {
+  console.error(`${file} is not a recorded session with frames`);
+  process.exit(1);
+}
+
+const clients = new Set();
+
+startWebSocketServer(port, {
+  onConnect: (connection) => {
+    clients.add(connection);
+    console.log(`client connected (${clients.size})`);
+  },
+  onDisconnect: (connection) => {
+    clients.delete(connection);
+    console.log(`client disconnected (${clients.size})`);
+  },
+});
+
+const frames = session.frames;
+const loopLength = Math.max(session.duration, frames[frames.length - 1].t) + 33;  // One frame gap between loops
+let index = 0;
+let loopOffset = 0;
+
+const sendNext = () => {
+  const frame = frames[index];
+  const message = JSON.stringify({ t: Math.round((loopOffset + frame.t) * 10) / 10, hands: frame.hands });
+  clients.forEach(client => client.send(message));
+
+  index++;
+  if (index >= frames.length) {
+    if (once) {
+      console.log('session finished');
+      return;
+    }
+    index = 0;
+    loopOffset += loopLength;
+  }
+  const next = index === 0 ? loopLength - frame.t : frames[index].t - frame.t;
+  setTimeout(sendNext, Math.max(0, next / speed));
+};
+
+sendNext();
+console.log(`Replaying ${file} (${frames.length} frames, ${Math.round(session.duration / 1000)} s) on ws://localhost:${port}`);
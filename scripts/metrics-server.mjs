@@ -0,0 +1,137 @@
+/**
+ * Stand-in for an external tool receiving the metrics output.
+ *
+ *   npm run metrics-server [-- --port 9980] [-- --verbose]
+ *
+ * Accepts JSON and OSC messages, checks the JSON format version, prints
+ * events as they arrive and a once-per-second summary of the stream (rate,
+ * dropped frames, hands). --verbose prints every message instead.
+ */
+
+import { startWebSocketServer } from './ws-server.mjs';
+
+const FORMAT = 'etherial-hand-metrics';
+const SUPPORTED_VERSION = 1;
+
+const args = process.argv.slice(2);
+const portArg = args.indexOf('--port');
+const port = portArg >= 0 ? Number(args[portArg + 1]) : 9980;
+const verbose = args.includes('--verbose');
+
+// --- OSC decoding (just what the encoder in services/osc.ts produces) ---
+
+const readString = (buf, offset) => {
+  const end = buf.indexOf(0, offset);
+  return { value: buf.toString('utf8', offset, end), next: (end + 4) & ~3 };
+};
+
+const decodeMessage = (buf) => {
+  const address = readString(buf, 0);
+  const tags = readString(buf, address.next);
+  let offset = tags.next;
+  const values = [];
+  for (const tag of tags.value.slice(1)) {
+    if (tag === 'i') { values.push(buf.readInt32BE(offset)); offset += 4; }
+    else if (tag === 'f') { values.push(buf.readFloatBE(offset)); offset += 4; }
+    else if (tag === 's') { const s = readString(buf, offset); values.push(s.value); offset = s.next; }
+    else throw new Error(`Unsupported OSC type tag '${tag}'`);
+  }
+  return { address: address.value, values };
+};
+
+const decodeOsc = (buf) => {
+  if (buf.toString('utf8', 0, 7) !== '#bundle') return [decodeMessage(buf)];
+  const messages = [];
+  let offset = 16;  // '#bundle\0' + time tag
+  while (offset < buf.length) {
+    const size = buf.readInt32BE(offset);
+    messages.push(...decodeOsc(buf.subarray(offset + 4, offset + 4 + size)));
+    offset += 4 + size;
+  }
+  return messages;
+};
+
+// --- Stream bookkeeping ---
+
+const round = (v) => Math.round(v * 100) / 100;
+
+const createStats = () => ({ count: 0, dropped: 0, lastSeq: -1, hands: '', since: Date.now() });
+
+const track = (stats, seq, hands) => {
+  if (stats.lastSeq >= 0 && seq > stats.lastSeq + 1) stats.dropped += seq - stats.lastSeq - 1;
+  stats.lastSeq = seq;
+  stats.count++;
+  stats.hands = hands;
+};
+
+const report = (id, stats) => {
+  const seconds = (Date.now() - stats.since) / 1000;
+  console.log(`[${id}] ${Math.round(stats.count / seconds)} msg/s, ${stats.dropped} dropped | ${stats.hands || 'no hands'}`);
+  stats.count = 0;
+  stats.dropped = 0;
+  stats.since = Date.now();
+};
+
+const handleJson = (id, stats, text) => {
+  let frame;
+  try {
+    frame = JSON.parse(text);
+  } catch {
+    console.warn(`[${id}] not JSON: ${text.slice(0, 80)}`);
+    return;
+  }
+  if (frame.format !== FORMAT || frame.version !== SUPPORTED_VERSION) {
+    console.warn(`[${id}] unexpected format ${frame.format} v${frame.version}`);
+    return;
+  }
+  if (verbose) console.log(JSON.stringify(frame));
+  frame.events.forEach(event => console.log(`[${id}] event`, JSON.stringify(event)));
+  track(stats, frame.seq, frame.hands
+    .map(h => `${h.handedness}${h.primary ? '*' : ''} pos=${h.position.map(round)} open=${round(h.openness)} pinch=${round(h.pinch)} ${h.gesture.name}`)
+    .join(' | '));
+};
+
+const handleOsc = (id, stats, buf) => {
+  let messages;
+  try {
+    messages = decodeOsc(buf);
+  } catch (err) {
+    console.warn(`[${id}] bad OSC packet: ${err.message}`);
+    return;
+  }
+  if (verbose) messages.forEach(m => console.log(m.address, ...m.values.map(v => (typeof v === 'number' ? round(v) : v))));
+
+  const value = (address) => messages.find(m => m.address === address)?.values;
+  messages
+    .filter(m => /^\/(gesture|motion|pose)/.test(m.address))
+    .forEach(m => console.log(`[${id}] event ${m.address}`, ...m.values));
+  const hands = [0, 1]
+    .filter(i => value(`/hand/${i}/present`)?.[0] === 1)
+    .map(i => `hand ${i} pos=${value(`/hand/${i}/position`).map(round)} open=${round(value(`/hand/${i}/openness`)[0])} pinch=${round(value(`/hand/${i}/pinch`)[0])} ${value(`/hand/${i}/gesture`)[0]}`)
+    .join(' | ');
+  track(stats, value('/frame')?.[0] ?? 0, hands);
+};
+
+let nextId = 1;
+const stats = new Map();
+
+startWebSocketServer(port, {
+  onConnect: (connection) => {
+    connection.id = nextId++;
+    stats.set(connection, createStats());
+    console.log(`[${connection.id}] connected`);
+  },
+  onMessage: (data, connection) => {
+    const s = stats.get(connection);
+    if (typeof data === 'string') handleJson(connection.id, s, data);
+    else handleOsc(connection.id, s, data);
+  },
+  onDisconnect: (connection) => {
+    stats.delete(connection);
+    console.log(`[${connection.id}] disconnected`);
+  },
+});
+
+if (!verbose) setInterval(() => stats.forEach((s, connection) => report(connection.id, s)), 1000);
+
+console.log(`Metrics stand-in server on ws://localhost:${port}`);
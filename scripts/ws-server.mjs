@@ -0,0 +1,140 @@
+/**
+ * Minimal WebSocket server (RFC 6455) on plain node:http, so the stand-in
+ * servers in this folder run with no dependencies. Handles the handshake,
+ * text/binary messages (fragmented or not), ping and close - enough for
+ * local testing, not for production.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;  // FIN + opcode, server frames are never masked
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Connection {
+  constructor(socket, onMessage, onClose) {
+    this.socket = socket;
+    this.onMessage = onMessage;
+    this.onClose = onClose;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentOpcode = 0;
+    this.closed = false;
+
+    socket.on('data', (chunk) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.parse();
+    });
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  send(data) {
+    if (this.closed) return;
+    const binary = typeof data !== 'string';
+    this.socket.write(encodeFrame(binary ? 0x2 : 0x1, binary ? Buffer.from(data) : Buffer.from(data, 'utf8')));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    this.finish();
+  }
+
+  finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose(this);
+  }
+
+  parse() {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    if (opcode === 0x8) return this.close();
+    if (opcode === 0x9) return this.socket.write(encodeFrame(0xa, payload));  // Ping -> pong
+    if (opcode === 0xa) return;
+
+    if (opcode !== 0x0) this.fragmentOpcode = opcode;
+    this.fragments.push(payload);
+    if (!fin) return;
+
+    const message = Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.onMessage(this.fragmentOpcode === 0x1 ? message.toString('utf8') : message, this);
+  }
+}
+
+/**
+ * Start a server on `port`. Handlers: onConnect(connection),
+ * onMessage(data, connection) with data a string or Buffer,
+ * onDisconnect(connection). Returns the node:http server.
+ */
+export const startWebSocketServer = (port, { onConnect = () => {}, onMessage = () => {}, onDisconnect = () => {} } = {}) => {
+  const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket endpoint\n');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+    const connection = new Connection(socket, onMessage, onDisconnect);
+    onConnect(connection);
+  });
+
+  server.listen(port);
+  return server;
+};
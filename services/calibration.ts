@@ -0,0 +1,241 @@
+/**
+ * Hand Calibration
+ *
+ * Hands and camera setups differ, so the constants `HandMetricsExtractor`
+ * relies on (reference hand size, depth sensitivity, pinch and spread
+ * ranges, curl normalization) live in a `CalibrationProfile`. A short guided
+ * capture measures them for one person; profiles are saved per user.
+ */
+
+import { HandLandmark, Vector3 } from '../types';
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  refHandSize: number;       // Wrist -> middle MCP at the neutral distance (image units)
+  depthScale: number;        // Sensitivity of depth scaling
+  pinchMin: number;          // Thumb-index distance that counts as a full pinch
+  pinchRange: number;        // Distance above pinchMin over which the pinch releases
+  spreadMin: number;         // Average adjacent fingertip distance with fingers together
+  spreadRange: number;       // Distance above spreadMin for a full spread
+  curlDivisor: number;       // Tip/MCP wrist-distance ratio of a straight finger
+  createdAt: string;
+}
+
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  id: 'default',
+  name: 'Padrão',
+  refHandSize: 0.25,
+  depthScale: 3.0,
+  pinchMin: 0.02,
+  pinchRange: 0.12,
+  spreadMin: 0.02,
+  spreadRange: 0.08,
+  curlDivisor: 1.3,
+  createdAt: '',
+};
+
+// ============================================================
+// GUIDED CAPTURE
+// ============================================================
+
+export type CalibrationStepId = 'open' | 'fist' | 'pinch' | 'spread' | 'near' | 'far';
+
+export interface CalibrationStep {
+  id: CalibrationStepId;
+  icon: string;
+  instruction: string;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { id: 'open', icon: '✋', instruction: 'Mão aberta, dedos juntos, na distância normal' },
+  { id: 'fist', icon: '✊', instruction: 'Feche a mão' },
+  { id: 'pinch', icon: '🤏', instruction: 'Encoste o polegar no indicador' },
+  { id: 'spread', icon: '🖐️', instruction: 'Abra os dedos o máximo possível' },
+  { id: 'near', icon: '🔍', instruction: 'Mão aberta, o mais perto da câmera que for confortável' },
+  { id: 'far', icon: '🔭', instruction: 'Mão aberta, o mais longe da câmera que for confortável' },
+];
+
+export type CalibrationCapture = Record<CalibrationStepId, Vector3[][]>;
+
+const FINGERS = [
+  [HandLandmark.INDEX_FINGER_MCP, HandLandmark.INDEX_FINGER_TIP],
+  [HandLandmark.MIDDLE_FINGER_MCP, HandLandmark.MIDDLE_FINGER_TIP],
+  [HandLandmark.RING_FINGER_MCP, HandLandmark.RING_FINGER_TIP],
+  [HandLandmark.PINKY_MCP, HandLandmark.PINKY_TIP],
+];
+
+const distance3D = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+// Median is robust to the odd mistracked frame
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const handSize = (lm: Vector3[]) => distance3D(lm[HandLandmark.WRIST], lm[HandLandmark.MIDDLE_FINGER_MCP]);
+
+const pinchDistance = (lm: Vector3[]) => distance3D(lm[HandLandmark.THUMB_TIP], lm[HandLandmark.INDEX_FINGER_TIP]);
+
+const tipSpread = (lm: Vector3[]) => {
+  const tips = FINGERS.map(([, tip]) => lm[tip]);
+  return (distance3D(tips[0], tips[1]) + distance3D(tips[1], tips[2]) + distance3D(tips[2], tips[3])) / 3;
+};
+
+// Same ratio the extractor uses to measure curl
+const extensionRatio = (lm: Vector3[]) => {
+  const wrist = lm[HandLandmark.WRIST];
+  const ratios = FINGERS.map(([mcp, tip]) => distance3D(lm[tip], wrist) / distance3D(lm[mcp], wrist));
+  return ratios.reduce((a, b) => a + b, 0) / ratios.length;
+};
+
+const measure = (frames: Vector3[][], fn: (lm: Vector3[]) => number) => median(frames.map(fn));
+
+/**
+ * Turn the captured frames of every step into a profile.
+ * Throws (Portuguese message) when a step clearly did not capture the asked pose.
+ */
+export const buildCalibrationProfile = (name: string, capture: CalibrationCapture): CalibrationProfile => {
+  CALIBRATION_STEPS.forEach(({ id, instruction }) => {
+    if (capture[id].length === 0) throw new Error(`Mão não detectada na etapa: ${instruction}`);
+  });
+
+  const refHandSize = measure(capture.open, handSize);
+  const nearSize = measure(capture.near, handSize);
+  const farSize = measure(capture.far, handSize);
+  if (nearSize <= refHandSize * 1.1 || farSize >= refHandSize * 0.9) {
+    throw new Error('Aproxime e afaste mais a mão da câmera');
+  }
+
+  const openRatio = measure(capture.open, extensionRatio);
+  if (measure(capture.fist, extensionRatio) > openRatio * 0.8) {
+    throw new Error('Punho não reconhecido - feche bem a mão');
+  }
+
+  const pinchMin = measure(capture.pinch, pinchDistance);
+  const pinchOpen = measure(capture.open, pinchDistance);
+  if (pinchOpen <= pinchMin * 1.5) throw new Error('Pinça não reconhecida - encoste polegar e indicador');
+
+  const spreadMin = measure(capture.open, tipSpread);
+  const spreadMax = measure(capture.spread, tipSpread);
+  if (spreadMax <= spreadMin * 1.2) throw new Error('Afaste mais os dedos na etapa de abertura');
+
+  // Near maps to depth -1 and far to +1 (see the depth formula in the extractor)
+  const nearScale = 1 / (1 - refHandSize / nearSize);
+  const farScale = 1 / (refHandSize / farSize - 1);
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    refHandSize,
+    depthScale: (nearScale + farScale) / 2,
+    pinchMin,
+    pinchRange: (pinchOpen - pinchMin) * 0.8,
+    spreadMin,
+    spreadRange: spreadMax - spreadMin,
+    curlDivisor: openRatio,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// ============================================================
+// PROFILE STORE
+// ============================================================
+
+const PROFILES_KEY = 'etherial.calibrationProfiles';
+const ACTIVE_KEY = 'etherial.activeCalibration';
+
+type ProfileListener = () => void;
+
+type ProfileField = Exclude<keyof CalibrationProfile, 'id' | 'name' | 'createdAt'>;
+
+// Plausible values (image units) - the divisors must stay above zero
+const PROFILE_RANGES: Record<ProfileField, [number, number]> = {
+  refHandSize: [0.01, 1],
+  depthScale: [0.1, 50],
+  pinchMin: [0, 1],
+  pinchRange: [0.001, 1],
+  spreadMin: [0, 1],
+  spreadRange: [0.001, 1],
+  curlDivisor: [0.1, 10],
+};
+
+const isValidProfile = (profile: Partial<CalibrationProfile>): profile is CalibrationProfile =>
+  typeof profile?.id === 'string' && typeof profile.name === 'string' &&
+  (Object.keys(PROFILE_RANGES) as ProfileField[]).every((field) => {
+    const value = profile[field];
+    const [min, max] = PROFILE_RANGES[field];
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+  });
+
+// Saved profiles that can be applied - anything else is dropped
+const validateProfiles = (stored: unknown): CalibrationProfile[] => {
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((profile) => {
+    const valid = isValidProfile(profile);
+    if (!valid) console.warn('Dropped calibration profile:', profile?.name ?? '(sem nome)');
+    return valid;
+  }).map(profile => ({ ...profile, createdAt: typeof profile.createdAt === 'string' ? profile.createdAt : '' }));
+};
+
+/**
+ * Saved profiles and the one currently applied
+ */
+export class CalibrationStore {
+  private profiles: CalibrationProfile[] = [];
+  private activeId = DEFAULT_CALIBRATION.id;
+  private listeners = new Set<ProfileListener>();
+
+  getProfiles(): CalibrationProfile[] {
+    return [DEFAULT_CALIBRATION, ...this.profiles];
+  }
+
+  getActive(): CalibrationProfile {
+    return this.profiles.find(p => p.id === this.activeId) ?? DEFAULT_CALIBRATION;
+  }
+
+  setActive(id: string) {
+    this.activeId = id;
+    this.changed();
+  }
+
+  save(profile: CalibrationProfile) {
+    this.profiles = [...this.profiles.filter(p => p.id !== profile.id), profile];
+    this.activeId = profile.id;
+    this.changed();
+  }
+
+  remove(id: string) {
+    this.profiles = this.profiles.filter(p => p.id !== id);
+    if (this.activeId === id) this.activeId = DEFAULT_CALIBRATION.id;
+    this.changed();
+  }
+
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  load() {
+    try {
+      this.profiles = validateProfiles(JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]'));
+      this.activeId = localStorage.getItem(ACTIVE_KEY) ?? DEFAULT_CALIBRATION.id;
+    } catch (err) {
+      console.warn('Failed to load calibration profiles:', err);
+    }
+  }
+
+  private changed() {
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(this.profiles));
+      localStorage.setItem(ACTIVE_KEY, this.activeId);
+    } catch (err) {
+      console.warn('Failed to save calibration profiles:', err);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Shared store - every source applies the active profile
+export const calibrationStore = new CalibrationStore();
+if (typeof localStorage !== 'undefined') calibrationStore.load();
@@ -0,0 +1,70 @@
+/**
+ * Camera Settings
+ *
+ * Which camera the tracker opens, and at what resolution and frame rate.
+ * The camera source follows changes live, switching streams without
+ * reloading the hand landmarker.
+ */
+
+import { createSettingsStore, oneOf } from './settingsStore';
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+export interface CameraSettings {
+  deviceId: string | null;   // null = browser default camera
+  resolution: CameraResolution;
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '480p',
+  frameRate: 30,
+};
+
+export const cameraSettings = createSettingsStore<CameraSettings>(
+  'etherial.cameraSettings',
+  DEFAULT_CAMERA_SETTINGS,
+  (settings) => ({
+    deviceId: typeof settings.deviceId === 'string' ? settings.deviceId : null,
+    resolution: oneOf(
+      settings.resolution,
+      Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[],
+      DEFAULT_CAMERA_SETTINGS.resolution
+    ),
+    frameRate: oneOf(settings.frameRate, CAMERA_FRAME_RATES, DEFAULT_CAMERA_SETTINGS.frameRate),
+  })
+);
+
+/**
+ * Video inputs the browser knows about. Labels stay empty until the user
+ * has granted camera permission once.
+ */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+  } catch (err) {
+    console.warn('Failed to list cameras:', err);
+    return [];
+  }
+};
+
+export const getVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => {
+  const { width, height } = CAMERA_RESOLUTIONS[settings.resolution] ?? CAMERA_RESOLUTIONS['480p'];
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate },
+  };
+};
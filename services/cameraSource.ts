@@ -0,0 +1,90 @@
+import { HandService } from './handService';
+import { BaseInputSource, toInputSourceError } from './inputSource';
+import { CameraSettings, cameraSettings } from './cameraSettings';
+
+/**
+ * MediaPipe camera tracking as an input source
+ */
+export class CameraInputSource extends BaseInputSource {
+  private handService: HandService | null = null;
+  private unsubscribeSettings: (() => void) | null = null;
+  private switchRequest = 0;
+  private opened = false;  // Camera opened once - settings changes switch it live
+
+  async start() {
+    this.setStatus('starting');
+    this.unsubscribeSettings ??= cameraSettings.subscribe((settings) => this.onSettingsChange(settings));
+
+    const handService = new HandService(
+      (frame) => this.emit(frame),
+      (detections, timestamp) => this.emitRaw(detections, timestamp),
+      (error) => this.setStatus('error', error)
+    );
+    this.handService = handService;
+
+    const initialSettings = cameraSettings.get();
+    try {
+      await handService.initialize(initialSettings);
+    } catch (err) {
+      handService.stop();
+      if (this.handService === handService) {
+        this.handService = null;
+        this.setStatus('error', toInputSourceError(err));
+      }
+      return;
+    }
+
+    // Stopped while the libraries were still loading
+    if (this.handService !== handService) {
+      handService.stop();
+      return;
+    }
+
+    this.opened = true;
+    this.setStatus('running');
+
+    // Settings changed while the camera was opening
+    const settings = cameraSettings.get();
+    if (settings !== initialSettings) this.switchCamera(settings);
+  }
+
+  private onSettingsChange(settings: CameraSettings) {
+    if (this.opened) {
+      this.switchCamera(settings);
+    } else if (!this.handService && this.getStatus() === 'error') {
+      // Failed to open the previous camera - try again with the new choice
+      this.start();
+    }
+  }
+
+  // Hot-switch device, resolution or frame rate
+  private async switchCamera(settings: CameraSettings) {
+    const handService = this.handService;
+    if (!handService) return;
+
+    // Only the latest switch reports its outcome
+    const request = ++this.switchRequest;
+    const isCurrent = () => this.handService === handService && request === this.switchRequest;
+
+    this.setStatus('starting');
+    try {
+      await handService.setCamera(settings);
+      if (isCurrent()) this.setStatus('running');
+    } catch (err) {
+      if (isCurrent()) this.setStatus('error', toInputSourceError(err));
+    }
+  }
+
+  stop() {
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+    this.handService?.stop();
+    this.handService = null;
+    this.opened = false;
+    this.setStatus('idle');
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return this.handService?.getVideoElement() ?? null;
+  }
+}
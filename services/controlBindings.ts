@@ -0,0 +1,175 @@
+/**
+ * Control Bindings
+ *
+ * Which keys and gamepad inputs drive the keyboard and gamepad sources.
+ * Sources read the bindings on every tick, so rebinding applies at once.
+ */
+
+import { stringOr } from './settingsStore';
+
+export type KeyAction =
+  | 'left' | 'right' | 'up' | 'down'
+  | 'nearer' | 'farther'
+  | 'tiltLeft' | 'tiltRight'
+  | 'pinch' | 'grip' | 'spread' | 'point';
+
+export type GamepadAxisAction = 'moveX' | 'moveY' | 'depth' | 'tilt';
+export type GamepadButtonAction = 'pinch' | 'grip' | 'spread' | 'point';
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  left: 'Esquerda',
+  right: 'Direita',
+  up: 'Cima',
+  down: 'Baixo',
+  nearer: 'Aproximar',
+  farther: 'Afastar',
+  tiltLeft: 'Inclinar ←',
+  tiltRight: 'Inclinar →',
+  pinch: 'Pinça',
+  grip: 'Garra',
+  spread: 'Dispersão',
+  point: 'Apontar',
+};
+
+export const GAMEPAD_AXIS_LABELS: Record<GamepadAxisAction, string> = {
+  moveX: 'Mover ↔',
+  moveY: 'Mover ↕',
+  depth: 'Profundidade',
+  tilt: 'Inclinar',
+};
+
+export const GAMEPAD_BUTTON_LABELS: Record<GamepadButtonAction, string> = {
+  pinch: 'Pinça',
+  grip: 'Garra',
+  spread: 'Dispersão',
+  point: 'Apontar',
+};
+
+export interface ControlBindings {
+  keyboard: Record<KeyAction, string>;                  // KeyboardEvent.code
+  gamepadAxes: Record<GamepadAxisAction, number>;       // Gamepad.axes index
+  gamepadButtons: Record<GamepadButtonAction, number>;  // Gamepad.buttons index
+}
+
+// Gamepad indices follow the browser's "standard" mapping
+export const DEFAULT_CONTROL_BINDINGS: ControlBindings = {
+  keyboard: {
+    left: 'KeyA',
+    right: 'KeyD',
+    up: 'KeyW',
+    down: 'KeyS',
+    nearer: 'KeyQ',
+    farther: 'KeyE',
+    tiltLeft: 'KeyZ',
+    tiltRight: 'KeyC',
+    pinch: 'Space',
+    grip: 'ShiftLeft',
+    spread: 'KeyF',
+    point: 'KeyR',
+  },
+  gamepadAxes: {
+    moveX: 0,    // Left stick
+    moveY: 1,
+    tilt: 2,     // Right stick
+    depth: 3,
+  },
+  gamepadButtons: {
+    pinch: 6,    // Left trigger
+    grip: 7,     // Right trigger
+    spread: 0,   // A / Cross
+    point: 1,    // B / Circle
+  },
+};
+
+const STORAGE_KEY = 'etherial.controlBindings';
+
+type BindingsListener = (bindings: ControlBindings) => void;
+
+const codeOr = (value: unknown, fallback: string): string => stringOr(value, '') || fallback;
+
+const indexOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : fallback;
+
+// Every action of `defaults`, each from `value` when it passes `check`
+const sanitizeSection = <A extends string, V>(
+  value: unknown,
+  defaults: Record<A, V>,
+  check: (value: unknown, fallback: V) => V
+): Record<A, V> => {
+  const stored = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const section = { ...defaults };
+  (Object.keys(defaults) as A[]).forEach((action) => {
+    section[action] = check(stored[action], defaults[action]);
+  });
+  return section;
+};
+
+// Actions added after the bindings were saved, and broken entries, get their defaults
+const sanitizeBindings = (bindings: Partial<Record<keyof ControlBindings, unknown>>): ControlBindings => ({
+  keyboard: sanitizeSection(bindings.keyboard, DEFAULT_CONTROL_BINDINGS.keyboard, codeOr),
+  gamepadAxes: sanitizeSection(bindings.gamepadAxes, DEFAULT_CONTROL_BINDINGS.gamepadAxes, indexOr),
+  gamepadButtons: sanitizeSection(bindings.gamepadButtons, DEFAULT_CONTROL_BINDINGS.gamepadButtons, indexOr),
+});
+
+export class ControlBindingsStore {
+  private bindings: ControlBindings = DEFAULT_CONTROL_BINDINGS;
+  private listeners = new Set<BindingsListener>();
+
+  get(): ControlBindings {
+    return this.bindings;
+  }
+
+  setKey(action: KeyAction, code: string) {
+    this.bindings = sanitizeBindings({ ...this.bindings, keyboard: { ...this.bindings.keyboard, [action]: code } });
+    this.changed();
+  }
+
+  setGamepadAxis(action: GamepadAxisAction, index: number) {
+    this.bindings = sanitizeBindings({
+      ...this.bindings,
+      gamepadAxes: { ...this.bindings.gamepadAxes, [action]: index },
+    });
+    this.changed();
+  }
+
+  setGamepadButton(action: GamepadButtonAction, index: number) {
+    this.bindings = sanitizeBindings({
+      ...this.bindings,
+      gamepadButtons: { ...this.bindings.gamepadButtons, [action]: index },
+    });
+    this.changed();
+  }
+
+  reset() {
+    this.bindings = DEFAULT_CONTROL_BINDINGS;
+    this.changed();
+  }
+
+  subscribe(listener: BindingsListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      this.bindings = sanitizeBindings(typeof data === 'object' && data !== null ? data : {});
+    } catch (err) {
+      console.warn('Failed to load control bindings:', err);
+    }
+  }
+
+  private changed() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (err) {
+      console.warn('Failed to save control bindings:', err);
+    }
+    this.listeners.forEach(listener => listener(this.bindings));
+  }
+}
+
+export const controlBindings = new ControlBindingsStore();
+if (typeof localStorage !== 'undefined') controlBindings.load();
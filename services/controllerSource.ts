@@ -0,0 +1,116 @@
+import { BaseInputSource, RawHandDetection } from './inputSource';
+import { MultiHandProcessor, mirrorLandmarks } from './multiHandProcessor';
+import { SyntheticHandPose, createNeutralPose, generateHandLandmarks } from './syntheticHand';
+
+/**
+ * What a simulated controller asks the hand to do this tick
+ */
+export interface ControlState {
+  x: number;                 // Wrist position, normalized -1 to 1 (y up)
+  y: number;
+  depth: number;             // -1 = close, 1 = far
+  tilt: number;              // -1 to 1, turns the palm sideways (palmTilt)
+  pinch: number;             // 0-1
+  grip: number;              // 0-1
+  spread: number;            // 0-1
+  point: number;             // 0-1
+  impulse: number;           // Energy to add this tick (0-1)
+}
+
+export const createNeutralControls = (): ControlState => ({
+  x: 0, y: -0.3, depth: 0, tilt: 0, pinch: 0, grip: 0, spread: 0, point: 0, impulse: 0,
+});
+
+// Finger curls [thumb, index, middle, ring, pinky] for each control
+const OPEN_CURLS = [0.1, 0.05, 0.05, 0.05, 0.05];
+const PINCH_CURLS = [0.3, 0.5, 0.6, 0.6, 0.6];
+const GRIP_CURLS = [0.4, 0.95, 0.95, 0.95, 0.95];
+const POINT_CURLS = [0.7, 0.05, 0.95, 0.95, 0.95];
+
+const NEUTRAL_SPREAD = 0.4;
+const MAX_TILT_YAW = 0.9;         // Wrist yaw at full tilt (radians)
+const CURL_TIME_CONSTANT = 0.1;   // Seconds - fingers ease into the target pose
+const PINCH_TIME_CONSTANT = 0.07;
+const TICK_MS = 16;
+
+const blend = (from: number[], to: number[], amount: number) =>
+  from.map((v, i) => v + (to[i] - v) * amount);
+
+/**
+ * Shared base for simulated sources (mouse, keyboard, gamepad, touch)
+ *
+ * Subclasses report a `ControlState` each tick. It is eased into a synthetic
+ * hand skeleton whose landmarks go through the regular metrics pipeline,
+ * exactly like camera frames.
+ */
+export abstract class ControllerInputSource extends BaseInputSource {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private processor = new MultiHandProcessor({ mirrorable: false });
+  private pose: SyntheticHandPose = createNeutralPose();
+  private lastTick = 0;
+
+  // Current controls, or null when there is no hand (e.g. no gamepad connected)
+  protected abstract readControls(dt: number): ControlState | null;
+  protected abstract attach(): void;
+  protected abstract detach(): void;
+
+  async start() {
+    this.attach();
+    this.lastTick = performance.now();
+    this.interval = setInterval(this.update, TICK_MS);
+    this.setStatus('running');
+  }
+
+  stop() {
+    this.detach();
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    this.pose = createNeutralPose();
+    this.processor.reset();
+    this.setStatus('idle');
+  }
+
+  private update = () => {
+    const now = performance.now();
+    const dt = Math.min(0.1, (now - this.lastTick) / 1000);
+    this.lastTick = now;
+
+    const controls = this.readControls(dt);
+    if (!controls) {
+      this.pose = createNeutralPose();
+      this.emitRaw([], now);
+      this.emit(this.processor.process([], dt));
+      return;
+    }
+
+    // Target pose for the current controls - later ones win where they overlap
+    let targetCurls = blend(OPEN_CURLS, PINCH_CURLS, controls.pinch);
+    targetCurls = blend(targetCurls, GRIP_CURLS, controls.grip);
+    targetCurls = blend(targetCurls, POINT_CURLS, controls.point);
+    const targetSpread = NEUTRAL_SPREAD + (1 - NEUTRAL_SPREAD) * controls.spread;
+
+    const curlK = 1 - Math.exp(-dt / CURL_TIME_CONSTANT);
+    const pinchK = 1 - Math.exp(-dt / PINCH_TIME_CONSTANT);
+
+    const pose = this.pose;
+    pose.curls = pose.curls.map((c, i) => c + (targetCurls[i] - c) * curlK) as SyntheticHandPose['curls'];
+    pose.spread += (targetSpread - pose.spread) * curlK;
+    pose.pinch += (controls.pinch - pose.pinch) * pinchK;
+    pose.position = { x: controls.x, y: controls.y };
+    pose.depth = controls.depth;
+    pose.yaw = controls.x * 0.3 + controls.tilt * MAX_TILT_YAW;
+
+    const detections: RawHandDetection[] = [{
+      landmarks: generateHandLandmarks(pose),
+      handedness: pose.handedness,
+      score: 1,
+    }];
+
+    if (controls.impulse > 0) this.processor.addEnergy(pose.handedness, controls.impulse);
+
+    // Raw frames are camera view (un-mirrored), like every other source's,
+    // so recordings and pose training see the same hand
+    this.emitRaw(detections.map(d => ({ ...d, landmarks: mirrorLandmarks(d.landmarks) })), now);
+    this.emit(this.processor.process(detections, dt));
+  };
+}
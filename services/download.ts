@@ -0,0 +1,12 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export const downloadJSON = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,24 @@
+/**
+ * External Tracker Settings
+ *
+ * Where the external tracker source connects. Changing the address
+ * reconnects a running source.
+ */
+
+import { createSettingsStore, stringOr } from './settingsStore';
+
+export interface ExternalTrackerSettings {
+  url: string;               // WebSocket endpoint sending landmark frames
+}
+
+export const DEFAULT_EXTERNAL_TRACKER_SETTINGS: ExternalTrackerSettings = {
+  url: 'ws://localhost:9990',
+};
+
+export const externalTrackerSettings = createSettingsStore<ExternalTrackerSettings>(
+  'etherial.externalTracker',
+  DEFAULT_EXTERNAL_TRACKER_SETTINGS,
+  (settings) => ({
+    url: stringOr(settings.url, '') || DEFAULT_EXTERNAL_TRACKER_SETTINGS.url,
+  })
+);
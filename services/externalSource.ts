@@ -0,0 +1,274 @@
+/**
+ * External Tracker Input
+ *
+ * Landmark frames from a tracker running elsewhere (a Python MediaPipe
+ * script, a depth-camera app, another machine...) over a WebSocket. Each
+ * text message is one frame, in the same shape as a recorded session frame:
+ *
+ *   { "t": 1234.5, "hands": [{ "handedness": "Left", "score": 0.9, "landmarks": [[x, y, z], ...21] }] }
+ *
+ * - landmarks: MediaPipe image coordinates (0-1), as [x, y, z] or {x, y, z}
+ * - handedness: the user's physical hand. Optional - unlabeled hands take
+ *   'Right', then 'Left'. (MediaPipe labels an unmirrored image the other
+ *   way round, swap them before sending.)
+ * - score: optional, defaults to 1
+ * - t: optional sender timestamp (ms) - used for frame timing and to drop
+ *   duplicate or out-of-order frames
+ *
+ * A single hand object or a bare array of 21 landmarks is accepted too.
+ * Frames go through `MultiHandProcessor` exactly like camera frames.
+ */
+
+import { BaseInputSource, InputSourceError, RawHandDetection } from './inputSource';
+import { Handedness } from './handMetrics';
+import { MultiHandProcessor } from './multiHandProcessor';
+import { MAX_HANDS } from './handLandmarker';
+import { ExternalTrackerSettings, externalTrackerSettings } from './externalSettings';
+import { Vector3 } from '../types';
+
+/**
+ * - connecting: opening the socket for the first time
+ * - live: frames are arriving
+ * - stale: connected, but no frame for a while
+ * - reconnecting: the connection dropped or was refused, retrying
+ */
+export type LinkState = 'connecting' | 'live' | 'stale' | 'reconnecting';
+
+export interface LinkInfo {
+  state: LinkState;
+  frameRate: number;         // Frames per second arriving, 0 when not live
+}
+
+interface ExternalFrame {
+  t: number | null;
+  detections: RawHandDetection[];
+}
+
+const LANDMARK_COUNT = 21;
+const STALE_MS = 500;              // No frame for this long = stale
+const WATCHDOG_MS = 100;
+const RESTART_MS = 1000;           // Sender time going back further = the sender restarted
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 10000;
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const toLandmark = (value: unknown): Vector3 | null => {
+  if (Array.isArray(value)) {
+    const [x, y, z = 0] = value;
+    return isNumber(x) && isNumber(y) && isNumber(z) ? { x, y, z } : null;
+  }
+  if (value && typeof value === 'object') {
+    const { x, y, z = 0 } = value as Record<string, unknown>;
+    return isNumber(x) && isNumber(y) && isNumber(z) ? { x, y, z } : null;
+  }
+  return null;
+};
+
+const toLandmarks = (value: unknown): Vector3[] | null => {
+  if (!Array.isArray(value) || value.length !== LANDMARK_COUNT) return null;
+  const landmarks = value.map(toLandmark);
+  return landmarks.every((l): l is Vector3 => l !== null) ? landmarks : null;
+};
+
+const toHandedness = (value: unknown): Handedness | null => {
+  if (typeof value !== 'string') return null;
+  const lower = value.toLowerCase();
+  return lower === 'left' ? 'Left' : lower === 'right' ? 'Right' : null;
+};
+
+/**
+ * Validate one incoming message. Returns null if it is not a frame;
+ * malformed hands inside a valid frame are skipped.
+ */
+export const parseExternalFrame = (data: unknown): ExternalFrame | null => {
+  let hands: unknown[];
+  let t: unknown = null;
+
+  if (Array.isArray(data) && data.length === LANDMARK_COUNT) {
+    hands = [{ landmarks: data }];
+  } else if (data && typeof data === 'object' && Array.isArray((data as { hands?: unknown }).hands)) {
+    ({ hands, t = null } = data as { hands: unknown[]; t?: unknown });
+  } else if (data && typeof data === 'object' && 'landmarks' in data) {
+    hands = [data];
+    t = (data as { t?: unknown }).t ?? null;
+  } else {
+    return null;
+  }
+
+  const detections: RawHandDetection[] = [];
+  hands.slice(0, MAX_HANDS).forEach((hand) => {
+    if (!hand || typeof hand !== 'object') return;
+    const { landmarks, handedness, score } = hand as Record<string, unknown>;
+    const points = toLandmarks(landmarks);
+    if (!points) return;
+
+    // Each physical hand at most once - the processor keys hands by it
+    let label = toHandedness(handedness) ?? 'Right';
+    if (detections.some(d => d.handedness === label)) label = label === 'Left' ? 'Right' : 'Left';
+    if (detections.some(d => d.handedness === label)) return;
+
+    detections.push({ landmarks: points, handedness: label, score: isNumber(score) ? score : 1 });
+  });
+
+  return { t: isNumber(t) ? t : null, detections };
+};
+
+/**
+ * External tracker as an input source
+ *
+ * Reconnects with backoff while started. When frames stop arriving the hands
+ * are fed "no detection" so they fade out through the usual grace period
+ * instead of freezing in place.
+ */
+export class ExternalInputSource extends BaseInputSource {
+  private processor = new MultiHandProcessor();
+  private url = externalTrackerSettings.get().url;
+  private socket: WebSocket | null = null;
+  private link: LinkState = 'connecting';
+  private frameInterval = 0;         // Smoothed ms between frames
+  private lastFrameAt = 0;
+  private lastSenderTime: number | null = null;
+  private warnedInvalid = false;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_MIN_MS;
+  private unsubscribeSettings: (() => void) | null = null;
+
+  async start() {
+    this.setStatus('starting');
+    this.url = externalTrackerSettings.get().url;
+    this.unsubscribeSettings = externalTrackerSettings.subscribe(this.onSettingsChange);
+    this.watchdog = setInterval(this.checkStale, WATCHDOG_MS);
+    this.connect();
+  }
+
+  stop() {
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.watchdog = null;
+    this.disconnect();
+    this.processor.reset();
+    this.setStatus('idle');
+  }
+
+  getLinkInfo(): LinkInfo {
+    return {
+      state: this.link,
+      frameRate: this.link === 'live' && this.frameInterval > 0 ? 1000 / this.frameInterval : 0,
+    };
+  }
+
+  private onSettingsChange = (settings: ExternalTrackerSettings) => {
+    if (settings.url === this.url) return;
+    this.url = settings.url;
+    this.disconnect();
+    this.link = 'connecting';
+    this.setStatus('starting');
+    this.connect();
+  };
+
+  private connect() {
+    this.clearRetry();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch {
+      // Malformed address - nothing to retry until it is changed
+      this.setStatus('error', new InputSourceError('bad-address'));
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (socket !== this.socket) return;
+      this.retryDelay = RETRY_MIN_MS;
+      this.lastFrameAt = performance.now();
+      this.link = 'stale';  // Until the first frame arrives
+      this.setStatus('running');
+    };
+    socket.onmessage = (event) => {
+      if (socket !== this.socket || typeof event.data !== 'string') return;
+      this.handleMessage(event.data);
+    };
+    // Browsers follow an error with close, some runtimes don't - handle whichever comes first
+    socket.onclose = socket.onerror = () => {
+      if (socket !== this.socket) return;
+      this.socket = null;
+      socket.close();
+      this.link = 'reconnecting';
+      this.lastSenderTime = null;
+      if (this.getStatus() === 'running') this.setStatus('starting');
+      this.scheduleRetry();
+    };
+  }
+
+  private disconnect() {
+    this.clearRetry();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.lastSenderTime = null;
+    this.frameInterval = 0;
+  }
+
+  private scheduleRetry() {
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(RETRY_MAX_MS, this.retryDelay * 2);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private handleMessage(text: string) {
+    let frame: ExternalFrame | null = null;
+    try {
+      frame = parseExternalFrame(JSON.parse(text));
+    } catch {
+      frame = null;
+    }
+    if (!frame) {
+      if (!this.warnedInvalid) console.warn('Ignoring invalid external tracker message:', text.slice(0, 200));
+      this.warnedInvalid = true;
+      return;
+    }
+
+    const now = performance.now();
+    const previousSenderTime = this.lastSenderTime;
+    if (frame.t !== null && previousSenderTime !== null) {
+      // Duplicate or late frame (a sender restart jumps back much further)
+      if (frame.t <= previousSenderTime && frame.t > previousSenderTime - RESTART_MS) return;
+    }
+
+    const arrivalDelta = this.lastFrameAt > 0 ? now - this.lastFrameAt : 16;
+    const senderDelta = frame.t !== null && previousSenderTime !== null ? frame.t - previousSenderTime : NaN;
+    const deltaMs = senderDelta > 0 && senderDelta < RESTART_MS ? senderDelta : arrivalDelta;
+
+    // Frame rate counts only gaps between live frames
+    if (this.link !== 'live') this.frameInterval = 0;
+    else if (this.frameInterval === 0) this.frameInterval = arrivalDelta;
+    else this.frameInterval += (arrivalDelta - this.frameInterval) * 0.1;
+
+    this.lastFrameAt = now;
+    this.lastSenderTime = frame.t;
+    this.link = 'live';
+
+    this.emitRaw(frame.detections, now);
+    this.emit(this.processor.process(frame.detections, Math.min(0.1, deltaMs / 1000)));
+  }
+
+  private checkStale = () => {
+    if (this.link === 'live' && performance.now() - this.lastFrameAt > STALE_MS) {
+      this.link = 'stale';
+      this.frameInterval = 0;
+    }
+    if (this.link !== 'live') this.emit(this.processor.process([], WATCHDOG_MS / 1000));
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Signal Filters
+ *
+ * Frame-rate-independent smoothing for hand metrics. Every filter takes the
+ * real time step, so the same settings feel identical at 15, 30 or 60 fps.
+ *
+ * - EMA: exponential smoothing with a time constant (seconds)
+ * - One Euro: adaptive low-pass - heavy smoothing when still, little lag when
+ *   moving fast (Casiez et al., CHI 2012)
+ * - Alpha-beta: value + rate tracker used for forward prediction
+ */
+
+import { inRange } from './settingsStore';
+
+export interface EmaFilterSpec {
+  type: 'ema';
+  timeConstant: number;      // Seconds to cover ~63% of a step change
+}
+
+export interface OneEuroFilterSpec {
+  type: 'oneEuro';
+  minCutoff: number;         // Hz - cutoff when the signal is still (lower = less jitter)
+  beta: number;              // How fast the cutoff rises with speed (higher = less lag)
+  dCutoff: number;           // Hz - cutoff for the derivative estimate
+}
+
+export type FilterSpec = EmaFilterSpec | OneEuroFilterSpec;
+
+export interface ScalarFilter {
+  filter(value: number, dt: number): number;
+  reset(): void;
+}
+
+const MIN_DT = 1e-4;
+
+// Smoothing factor of a first-order low-pass for this step
+const lowPassAlpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export class EmaFilter implements ScalarFilter {
+  private value: number | null = null;
+
+  constructor(private timeConstant: number) {}
+
+  filter(value: number, dt: number): number {
+    if (this.value === null || this.timeConstant <= 0) {
+      this.value = value;
+      return value;
+    }
+    const alpha = 1 - Math.exp(-Math.max(0, dt) / this.timeConstant);
+    this.value += (value - this.value) * alpha;
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+  }
+}
+
+export class OneEuroFilter implements ScalarFilter {
+  private value: number | null = null;
+  private derivative = 0;
+
+  constructor(private spec: Omit<OneEuroFilterSpec, 'type'>) {}
+
+  filter(value: number, dt: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.derivative = 0;
+      return value;
+    }
+    const step = Math.max(MIN_DT, dt);
+
+    // Smoothed speed of the signal drives the cutoff
+    const rawDerivative = (value - this.value) / step;
+    this.derivative += (rawDerivative - this.derivative) * lowPassAlpha(this.spec.dCutoff, step);
+
+    const cutoff = this.spec.minCutoff + this.spec.beta * Math.abs(this.derivative);
+    this.value += (value - this.value) * lowPassAlpha(cutoff, step);
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+export const createFilter = (spec: FilterSpec): ScalarFilter => {
+  switch (spec.type) {
+    case 'ema': return new EmaFilter(spec.timeConstant);
+    case 'oneEuro': return new OneEuroFilter(spec);
+  }
+};
+
+export const ema = (timeConstant: number): EmaFilterSpec => ({ type: 'ema', timeConstant });
+
+export const oneEuro = (minCutoff: number, beta: number, dCutoff: number = 1): OneEuroFilterSpec => ({
+  type: 'oneEuro', minCutoff, beta, dCutoff,
+});
+
+const MAX_TIME_CONSTANT = 2;  // Seconds
+const MIN_CUTOFF = 0.01;      // Hz
+const MAX_CUTOFF = 30;
+const MAX_BETA = 100;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * A spec read from settings, with its parameters clamped to usable ranges,
+ * or null when it is not a filter spec
+ */
+export const sanitizeFilterSpec = (value: unknown): FilterSpec | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const spec = value as Record<string, unknown>;
+  if (spec.type === 'ema' && isNumber(spec.timeConstant)) {
+    return ema(inRange(spec.timeConstant, 0, MAX_TIME_CONSTANT, 0));
+  }
+  if (spec.type === 'oneEuro' && isNumber(spec.minCutoff) && isNumber(spec.beta)) {
+    return oneEuro(
+      inRange(spec.minCutoff, MIN_CUTOFF, MAX_CUTOFF, 1),
+      inRange(spec.beta, 0, MAX_BETA, 0),
+      inRange(spec.dCutoff, MIN_CUTOFF, MAX_CUTOFF, 1)
+    );
+  }
+  return null;
+};
+
+/**
+ * Alpha-beta tracker - estimates value and rate of change from noisy samples,
+ * so the value can be extrapolated ahead in time
+ */
+export class AlphaBetaFilter {
+  private value: number | null = null;
+  private rate = 0;
+
+  constructor(
+    private alpha: number = 0.5,   // Position correction gain
+    private beta: number = 0.1     // Velocity correction gain
+  ) {}
+
+  update(measurement: number, dt: number) {
+    if (this.value === null) {
+      this.value = measurement;
+      this.rate = 0;
+      return;
+    }
+    const step = Math.max(MIN_DT, dt);
+    const predicted = this.value + this.rate * step;
+    const residual = measurement - predicted;
+    this.value = predicted + this.alpha * residual;
+    this.rate += (this.beta / step) * residual;
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  reset() {
+    this.value = null;
+    this.rate = 0;
+  }
+}
@@ -0,0 +1,50 @@
+import { ControlState, ControllerInputSource, createNeutralControls } from './controllerSource';
+import { controlBindings } from './controlBindings';
+
+const DEADZONE = 0.12;
+
+// First connected gamepad, if any
+export const getActiveGamepad = (): Gamepad | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  return navigator.getGamepads().find((pad): pad is Gamepad => pad !== null && pad.connected) ?? null;
+};
+
+// Rescale so the stick starts at 0 just outside the deadzone
+const applyDeadzone = (v: number) => {
+  const magnitude = Math.abs(v);
+  if (magnitude < DEADZONE) return 0;
+  return Math.sign(v) * (magnitude - DEADZONE) / (1 - DEADZONE);
+};
+
+/**
+ * Gamepad as an input source (Gamepad API, polled every tick)
+ *
+ * Sticks place the hand directly: left stick = position, right stick =
+ * tilt and depth. Analog triggers pinch and grip, buttons spread and point.
+ * Inputs come from `controlBindings`.
+ */
+export class GamepadInputSource extends ControllerInputSource {
+  protected attach() {}
+  protected detach() {}
+
+  protected readControls(): ControlState | null {
+    const pad = getActiveGamepad();
+    if (!pad) return null;
+
+    const { gamepadAxes: axes, gamepadButtons: buttons } = controlBindings.get();
+    const axis = (index: number) => applyDeadzone(pad.axes[index] ?? 0);
+    const button = (index: number) => pad.buttons[index]?.value ?? 0;
+
+    return {
+      ...createNeutralControls(),
+      x: axis(axes.moveX),
+      y: -axis(axes.moveY),        // Stick up reads negative
+      depth: axis(axes.depth),     // Pushing forward brings the hand closer
+      tilt: axis(axes.tilt),
+      pinch: button(buttons.pinch),
+      grip: button(buttons.grip),
+      spread: button(buttons.spread),
+      point: button(buttons.point),
+    };
+  }
+}
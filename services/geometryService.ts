@@ -1,11 +1,9 @@
 import * as THREE from 'three';
 import { ParticleShape } from '../types';
 
-// Lowered particle budget to improve FPS on modest GPUs
-export const PARTICLE_COUNT = 8000;
 const RADIUS = 3.6;
 
-export const generateGeometry = (shape: ParticleShape, count: number = PARTICLE_COUNT): Float32Array => {
+export const generateGeometry = (shape: ParticleShape, count: number): Float32Array => {
   const positions = new Float32Array(count * 3);
   const tempVec = new THREE.Vector3();
 
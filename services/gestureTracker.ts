@@ -0,0 +1,183 @@
+/**
+ * Gesture Tracker
+ *
+ * Runs `GestureDetector` on every tracked frame and turns its per-frame
+ * guesses into stable gestures: a gesture has to hold for a while before it
+ * starts, and survives short dropouts before it ends (hysteresis).
+ */
+
+import { GestureType, Vector3 } from '../types';
+import { GestureDetector } from './gestureDetector';
+import { Handedness } from './handMetrics';
+
+export interface GestureTrackerOptions {
+  minHoldMs: number;         // Candidate must persist this long before it starts
+  releaseMs: number;         // Active gesture survives dropouts this long
+  enterConfidence: number;   // Smoothed score needed to start a gesture
+  exitConfidence: number;    // Smoothed score below which a gesture starts to end
+  smoothingMs: number;       // Time constant of the per-gesture score EMA
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureTrackerOptions = {
+  minHoldMs: 150,
+  releaseMs: 200,
+  enterConfidence: 0.6,
+  exitConfidence: 0.35,
+  smoothingMs: 75,          // About a 0.35 factor per frame at 30 fps
+};
+
+const FIRST_FRAME_MS = 1000 / 30;  // Assumed gap before the first frame
+
+export interface GestureState {
+  gesture: GestureType;
+  confidence: number;        // Smoothed score of the active gesture (0-1)
+  since: number;             // Tracker time (ms) when it started
+}
+
+export interface GestureStartEvent {
+  type: 'gestureStart';
+  gesture: GestureType;
+  handedness: Handedness;
+  confidence: number;
+  timestamp: number;
+  position: Vector3;         // Hand position when the gesture started (z = depth)
+  direction: Vector3;        // Pointing direction when the gesture started
+}
+
+export interface GestureEndEvent {
+  type: 'gestureEnd';
+  gesture: GestureType;
+  handedness: Handedness;
+  duration: number;          // How long the gesture was held (ms)
+  timestamp: number;
+}
+
+export type GestureEvent = GestureStartEvent | GestureEndEvent;
+export type GestureEventListener = (event: GestureEvent) => void;
+
+export const createIdleGesture = (): GestureState => ({
+  gesture: GestureType.NONE,
+  confidence: 0,
+  since: 0,
+});
+
+interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Per-hand gesture state machine
+ */
+export class GestureTracker {
+  private options: GestureTrackerOptions;
+  private scores = new Map<GestureType, number>();
+  private active: GestureState = createIdleGesture();
+  private pending: GestureType = GestureType.NONE;
+  private pendingSince = 0;
+  private releaseSince: number | null = null;
+  private lastTime: number | null = null;
+
+  constructor(options: Partial<GestureTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed one frame (raw MediaPipe landmarks, null when the hand is lost).
+   * Returns the transitions that happened on this frame.
+   */
+  update(
+    landmarks: Landmark[] | null,
+    time: number,
+    handedness: Handedness,
+    position: Vector3,
+    direction: Vector3
+  ): GestureEvent[] {
+    const { minHoldMs, releaseMs, enterConfidence, exitConfidence, smoothingMs } = this.options;
+    const events: GestureEvent[] = [];
+    const dt = this.lastTime === null ? FIRST_FRAME_MS : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const detected = landmarks && landmarks.length >= 21
+      ? GestureDetector.detectGesture(landmarks)
+      : { gesture: GestureType.NONE, confidence: 1 };
+
+    // Smooth a score per gesture so single-frame flickers never win - by
+    // elapsed time, so it settles equally fast at any frame rate
+    const alpha = smoothingMs > 0 ? 1 - Math.exp(-dt / smoothingMs) : 1;
+    Object.values(GestureType).forEach((g) => {
+      const target = g === detected.gesture ? detected.confidence : 0;
+      const old = this.scores.get(g) ?? 0;
+      this.scores.set(g, old + (target - old) * alpha);
+    });
+
+    // === RELEASE ===
+    if (this.active.gesture !== GestureType.NONE) {
+      const score = this.scores.get(this.active.gesture) ?? 0;
+      this.active.confidence = score;
+
+      if (score < exitConfidence) {
+        if (this.releaseSince === null) this.releaseSince = time;
+        if (time - this.releaseSince >= releaseMs) {
+          events.push({
+            type: 'gestureEnd',
+            gesture: this.active.gesture,
+            handedness,
+            duration: time - this.active.since,
+            timestamp: time,
+          });
+          this.active = createIdleGesture();
+          this.releaseSince = null;
+        }
+      } else {
+        this.releaseSince = null;
+      }
+    }
+
+    // === ENTRY ===
+    if (this.active.gesture === GestureType.NONE) {
+      let candidate: GestureType = GestureType.NONE;
+      let best = enterConfidence;
+      this.scores.forEach((score, g) => {
+        if (g !== GestureType.NONE && score >= best) {
+          candidate = g;
+          best = score;
+        }
+      });
+
+      if (candidate === GestureType.NONE) {
+        this.pending = GestureType.NONE;
+      } else if (candidate !== this.pending) {
+        this.pending = candidate;
+        this.pendingSince = time;
+      } else if (time - this.pendingSince >= minHoldMs) {
+        this.active = { gesture: candidate, confidence: best, since: time };
+        this.pending = GestureType.NONE;
+        events.push({
+          type: 'gestureStart',
+          gesture: candidate,
+          handedness,
+          confidence: best,
+          timestamp: time,
+          position: { ...position },
+          direction: { ...direction },
+        });
+      }
+    }
+
+    return events;
+  }
+
+  getActive(): GestureState {
+    return { ...this.active };
+  }
+
+  reset() {
+    this.scores.clear();
+    this.active = createIdleGesture();
+    this.pending = GestureType.NONE;
+    this.releaseSince = null;
+    this.lastTime = null;
+  }
+}
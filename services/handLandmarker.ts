@@ -0,0 +1,52 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Handedness } from './handMetrics';
+import { RawHandDetection } from './inputSource';
+
+/**
+ * MediaPipe hand landmarker setup shared by the tracking worker and the
+ * main-thread fallback in `HandService`.
+ */
+
+export const MAX_HANDS = 2;
+
+// Served by the app itself so tracking works offline. The WASM runtime comes
+// from node_modules (see vite.config.ts), the model lives in public/models.
+const WASM_PATH = '/mediapipe/wasm';
+const MODEL_PATH = '/models/hand_landmarker.task';
+
+export const createHandLandmarker = async (): Promise<HandLandmarker> => {
+  const vision = await FilesetResolver.forVisionTasks(WASM_PATH);
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: MODEL_PATH,
+      delegate: 'GPU',
+    },
+    runningMode: 'VIDEO',
+    numHands: MAX_HANDS,
+    minHandDetectionConfidence: 0.7,
+    minHandPresenceConfidence: 0.6,
+    minTrackingConfidence: 0.6,
+  });
+};
+
+/**
+ * Assign each detection the user's physical hand. MediaPipe labels assume
+ * a mirrored image and the video is not mirrored, so its labels are swapped.
+ * If the classifier labels both hands the same, the second one takes the remaining label.
+ */
+export const toRawDetections = (result: HandLandmarkerResult): RawHandDetection[] => {
+  const detections: RawHandDetection[] = [];
+  result.landmarks.slice(0, MAX_HANDS).forEach((landmarks, i) => {
+    const category = result.handedness[i]?.[0];
+    let handedness: Handedness = category?.categoryName === 'Left' ? 'Right' : 'Left';
+    if (detections.some(d => d.handedness === handedness)) {
+      handedness = handedness === 'Left' ? 'Right' : 'Left';
+    }
+    detections.push({
+      landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+      handedness,
+      score: category?.score ?? 0,
+    });
+  });
+  return detections;
+};
@@ -8,6 +8,11 @@
  */
 
 import { HandLandmark, Vector3 } from '../types';
+import { GestureEvent, GestureState } from './gestureTracker';
+import { CustomPoseEvent, CustomPoseState } from './poseClassifier';
+import { MotionEvent } from './motionRecognizer';
+import { CalibrationProfile, DEFAULT_CALIBRATION } from './calibration';
+import { AlphaBetaFilter, FilterSpec, ScalarFilter, createFilter, ema, oneEuro } from './filters';
 
 interface Landmark {
   x: number;
@@ -15,45 +20,103 @@ interface Landmark {
   z: number;
 }
 
-// Exponential Moving Average for smooth metrics
+/**
+ * Metrics that are smoothed, each with its own filter
+ */
+export type SmoothedMetric =
+  | 'handSize' | 'depth' | 'position' | 'velocity' | 'speed'
+  | 'curls' | 'openness' | 'pinch' | 'pinchPosition' | 'spread'
+  | 'palmNormal' | 'palmFacing' | 'palmTilt'
+  | 'pointDirection' | 'pointStrength' | 'grip' | 'tension' | 'expressiveness';
+
+export type MetricFilterConfig = Record<SmoothedMetric, FilterSpec>;
+
+// Time constants match the old per-frame alphas (0.35 / 0.6 / 0.15) at 30 fps
+const STANDARD = ema(0.08);
+const FAST = ema(0.035);
+const SLOW = ema(0.2);
+
+export const DEFAULT_METRIC_FILTERS: MetricFilterConfig = {
+  handSize: SLOW,
+  depth: STANDARD,
+  position: oneEuro(1.5, 3),       // Steady when still, little lag on fast moves
+  velocity: STANDARD,
+  speed: STANDARD,
+  curls: STANDARD,
+  openness: SLOW,
+  pinch: FAST,
+  pinchPosition: oneEuro(1.5, 3),
+  spread: STANDARD,
+  palmNormal: STANDARD,
+  palmFacing: SLOW,
+  palmTilt: STANDARD,
+  pointDirection: STANDARD,
+  pointStrength: STANDARD,
+  grip: STANDARD,
+  tension: SLOW,
+  expressiveness: STANDARD,
+};
+
+// Per-metric filters, stepped with the real frame time
 class MetricSmoother {
-  private values: Map<string, number> = new Map();
-  private vectors: Map<string, Vector3> = new Map();
-  
-  constructor(private alpha: number = 0.3) {}
+  private filters: Map<string, ScalarFilter> = new Map();
 
-  smoothValue(key: string, newValue: number): number {
-    const old = this.values.get(key) ?? newValue;
-    const smoothed = this.alpha * newValue + (1 - this.alpha) * old;
-    this.values.set(key, smoothed);
-    return smoothed;
+  constructor(private specs: MetricFilterConfig) {}
+
+  smoothValue(metric: SmoothedMetric, newValue: number, dt: number, key: string = metric): number {
+    let filter = this.filters.get(key);
+    if (!filter) {
+      filter = createFilter(this.specs[metric]);
+      this.filters.set(key, filter);
+    }
+    return filter.filter(newValue, dt);
   }
 
-  smoothVector(key: string, newVec: Vector3): Vector3 {
-    const old = this.vectors.get(key) ?? newVec;
-    const smoothed = {
-      x: this.alpha * newVec.x + (1 - this.alpha) * old.x,
-      y: this.alpha * newVec.y + (1 - this.alpha) * old.y,
-      z: this.alpha * newVec.z + (1 - this.alpha) * old.z,
+  smoothVector(metric: SmoothedMetric, newVec: Vector3, dt: number): Vector3 {
+    return {
+      x: this.smoothValue(metric, newVec.x, dt, `${metric}.x`),
+      y: this.smoothValue(metric, newVec.y, dt, `${metric}.y`),
+      z: this.smoothValue(metric, newVec.z, dt, `${metric}.z`),
     };
-    this.vectors.set(key, smoothed);
-    return smoothed;
+  }
+
+  setSpecs(specs: MetricFilterConfig) {
+    this.specs = specs;
+    this.filters.clear();
   }
 
   reset() {
-    this.values.clear();
-    this.vectors.clear();
+    this.filters.clear();
   }
 }
 
+export type Handedness = 'Left' | 'Right';
+
+/**
+ * Which way a hand's landmarks are wound: 1 = a right hand seen by the camera
+ * (un-mirrored), -1 = the mirror image of that (a left hand, or a right hand
+ * in a mirrored view). Used to give both hands the same metric semantics.
+ */
+export const handChirality = (handedness: Handedness, mirrored: boolean): 1 | -1 =>
+  (handedness === 'Left') !== mirrored ? -1 : 1;
+
+/**
+ * - tracking: landmarks were detected this frame
+ * - predicting: detection dropped out, metrics are extrapolated and fading
+ * - lost: no hand (grace period over)
+ */
+export type TrackingState = 'tracking' | 'predicting' | 'lost';
+
 /**
  * Continuous metrics extracted from hand landmarks
  * All values are normalized 0-1 for easy mapping to effects
  */
 export interface ContinuousHandMetrics {
   // === PRESENCE ===
-  isPresent: boolean;
-  confidence: number;        // Overall tracking confidence
+  isPresent: boolean;        // True while tracking or predicting
+  trackingState: TrackingState;
+  handedness: Handedness | null;  // The user's physical hand
+  confidence: number;        // Overall tracking confidence (fades out while predicting)
   
   // === POSITION & MOTION ===
   position: Vector3;         // Normalized -1 to 1
@@ -66,12 +129,17 @@ export interface ContinuousHandMetrics {
   // === PINCH CONTROL ===
   pinchStrength: number;     // 0 = open, 1 = thumb touching index
   pinchPosition: Vector3;    // Where the pinch point is
+
+  // === LATENCY COMPENSATION ===
+  latency: number;           // Estimated capture-to-metrics latency (seconds)
+  predictedPosition: Vector3;       // `position` extrapolated ahead by the latency
+  predictedPinchPosition: Vector3;  // `pinchPosition` extrapolated ahead by the latency
   
   // === FINGER SPREAD ===
   fingerSpread: number;      // 0 = fingers together, 1 = spread apart
   
   // === PALM ORIENTATION ===
-  palmNormal: Vector3;       // Direction palm is facing
+  palmNormal: Vector3;       // Direction palm is facing, in landmark axes (z < 0 = toward camera), same for both hands
   palmFacingCamera: number;  // 1 = facing camera, -1 = facing away
   palmTilt: number;          // -1 = tilted left, 1 = tilted right
   
@@ -103,36 +171,108 @@ export interface ContinuousHandMetrics {
 }
 
 export class HandMetricsExtractor {
-  private smoother = new MetricSmoother(0.35);
-  private fastSmoother = new MetricSmoother(0.6); // For responsive metrics
-  private slowSmoother = new MetricSmoother(0.15); // For stable metrics
+  private smoother: MetricSmoother;
   
-  private lastPosition: Vector3 = { x: 0, y: 0, z: 0 };
+  private lastPosition: Vector3 | null = null;  // None yet - the first frame has no velocity
   private lastTime: number = 0;
   private energy: number = 0;
+
+  // Latency compensation - alpha-beta trackers on the raw (unsmoothed) signals
+  private latency = 0;
+  private predictionAmount = 1;
+  private motionTrackers: Record<'position' | 'pinchPosition', AlphaBetaFilter[]> = {
+    position: [new AlphaBetaFilter(), new AlphaBetaFilter(), new AlphaBetaFilter()],
+    pinchPosition: [new AlphaBetaFilter(), new AlphaBetaFilter(), new AlphaBetaFilter()],
+  };
+
+  // Dropout grace period
+  private lastTracked: ContinuousHandMetrics | null = null;
+  private lostFor = 0;       // Seconds since the last detection
   
   private readonly ENERGY_DECAY = 0.97;
   private readonly ENERGY_GAIN = 0.2;
 
-  // Calibration for depth estimation
-  private readonly REF_HAND_SIZE = 0.25; // Reference size at neutral distance
-  private readonly DEPTH_SCALE = 3.0;    // Sensitivity of depth scaling
+  private mirrored = false;  // Landmarks arrive in a mirrored view
+
+  // Per-user calibration (depth, pinch, spread and curl ranges) and per-metric filters
+  constructor(
+    private handedness: Handedness = 'Right',
+    private calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+    filters: Partial<MetricFilterConfig> = {},
+    private gracePeriod: number = 0.25  // Seconds a lost hand is extrapolated before it counts as gone
+  ) {
+    this.smoother = new MetricSmoother({ ...DEFAULT_METRIC_FILTERS, ...filters });
+  }
+
+  setFilters(filters: Partial<MetricFilterConfig>) {
+    this.smoother.setSpecs({ ...DEFAULT_METRIC_FILTERS, ...filters });
+  }
+
+  setCalibration(calibration: CalibrationProfile) {
+    this.calibration = calibration;
+  }
+
+  getCalibration(): CalibrationProfile {
+    return this.calibration;
+  }
+
+  setGracePeriod(seconds: number) {
+    this.gracePeriod = Math.max(0, seconds);
+  }
+
+  setMirrored(mirrored: boolean) {
+    this.mirrored = mirrored;
+  }
+
+  // Energy from input that has no hand motion behind it (e.g. touch taps)
+  addEnergy(amount: number) {
+    this.energy = Math.min(1, this.energy + Math.max(0, amount));
+  }
+
+  // Fraction of the measured latency to predict ahead (0 = no prediction)
+  setPredictionAmount(amount: number) {
+    this.predictionAmount = Math.max(0, amount);
+  }
 
   /**
-   * Extract continuous metrics from raw MediaPipe landmarks
+   * Extract continuous metrics from raw MediaPipe landmarks.
+   * `captureTime` (performance.now() ms when the frame was captured) enables
+   * latency estimation; without it nothing is predicted. `confidence` is the
+   * detector's score for this hand.
    */
-  extract(rawLandmarks: Landmark[] | null, deltaTime: number = 0.016): ContinuousHandMetrics {
+  extract(
+    rawLandmarks: Landmark[] | null,
+    deltaTime: number = 0.016,
+    captureTime?: number,
+    confidence: number = 1
+  ): ContinuousHandMetrics {
     const now = performance.now();
     const dt = this.lastTime > 0 ? (now - this.lastTime) / 1000 : deltaTime;
     this.lastTime = now;
 
+    if (captureTime !== undefined) {
+      const measured = Math.max(0, (now - captureTime) / 1000);
+      this.latency += (measured - this.latency) * 0.1;
+    }
+
     // Decay energy
     this.energy *= this.ENERGY_DECAY;
 
-    // No hand detected
+    // No hand detected - ride out short dropouts before reporting the hand lost
     if (!rawLandmarks || rawLandmarks.length < 21) {
-      return this.getEmptyMetrics();
+      if (!this.lastTracked) return this.getEmptyMetrics();
+      this.lostFor += dt;
+      if (this.lostFor >= this.gracePeriod) {
+        this.lastTracked = null;
+        this.lastPosition = null;
+        this.lastTime = 0;
+        this.smoother.reset();
+        this.resetMotionTrackers();
+        return this.getEmptyMetrics();
+      }
+      return this.predict(this.lastTracked, this.lostFor);
     }
+    this.lostFor = 0;
 
     const lm = rawLandmarks;
 
@@ -142,28 +282,33 @@ export class HandMetricsExtractor {
     const wrist = lm[HandLandmark.WRIST];
     const middleMcp = lm[HandLandmark.MIDDLE_FINGER_MCP];
     const rawHandSize = this.distance3D(wrist, middleMcp);
-    const handSize = this.slowSmoother.smoothValue('handSize', rawHandSize);
+    const handSize = this.smoother.smoothValue('handSize', rawHandSize, dt);
     
     // Calculate depth: larger hand = smaller depth (closer), smaller hand = larger depth (farther)
     // Normalized around 0 (reference distance)
     // Using 1/x relationship because size scales inversely with distance
-    const rawDepth = (this.REF_HAND_SIZE / Math.max(0.05, handSize) - 1) * this.DEPTH_SCALE;
-    const depth = this.smoother.smoothValue('depth', rawDepth);
+    const { refHandSize, depthScale, pinchMin, pinchRange } = this.calibration;
+    const rawDepth = (refHandSize / Math.max(0.05, handSize) - 1) * depthScale;
+    const depth = this.smoother.smoothValue('depth', rawDepth, dt);
 
     // === POSITION ===
-    const position = this.smoother.smoothVector('pos', {
+    const rawPosition = {
       x: (wrist.x - 0.5) * 2,
       y: -(wrist.y - 0.5) * 2,
-      z: depth, // Use our estimated depth instead of wrist.z
-    });
+      z: rawDepth, // Use our estimated depth instead of wrist.z
+    };
+    const position = this.smoother.smoothVector('position', { ...rawPosition, z: depth }, dt);
+    const lead = this.latency * this.predictionAmount;
+    const predictedPosition = this.predictAhead('position', rawPosition, position, dt, lead);
 
     // === VELOCITY ===
+    const previous = this.lastPosition ?? position;
     const rawVelocity = {
-      x: (position.x - this.lastPosition.x) / dt,
-      y: (position.y - this.lastPosition.y) / dt,
-      z: (position.z - this.lastPosition.z) / dt,
+      x: (position.x - previous.x) / dt,
+      y: (position.y - previous.y) / dt,
+      z: (position.z - previous.z) / dt,
     };
-    const velocity = this.smoother.smoothVector('vel', rawVelocity);
+    const velocity = this.smoother.smoothVector('velocity', rawVelocity, dt);
     const speed = Math.min(1, Math.sqrt(velocity.x ** 2 + velocity.y ** 2) / 10);
     this.lastPosition = { ...position };
 
@@ -178,39 +323,42 @@ export class HandMetricsExtractor {
     const pinkyCurl = this.calculateFingerCurl(lm, 'pinky');
 
     // Smooth finger curls
-    const smoothThumb = this.smoother.smoothValue('thumbCurl', thumbCurl);
-    const smoothIndex = this.smoother.smoothValue('indexCurl', indexCurl);
-    const smoothMiddle = this.smoother.smoothValue('middleCurl', middleCurl);
-    const smoothRing = this.smoother.smoothValue('ringCurl', ringCurl);
-    const smoothPinky = this.smoother.smoothValue('pinkyCurl', pinkyCurl);
+    const smoothThumb = this.smoother.smoothValue('curls', thumbCurl, dt, 'thumbCurl');
+    const smoothIndex = this.smoother.smoothValue('curls', indexCurl, dt, 'indexCurl');
+    const smoothMiddle = this.smoother.smoothValue('curls', middleCurl, dt, 'middleCurl');
+    const smoothRing = this.smoother.smoothValue('curls', ringCurl, dt, 'ringCurl');
+    const smoothPinky = this.smoother.smoothValue('curls', pinkyCurl, dt, 'pinkyCurl');
 
     // === OPENNESS (key metric!) ===
     // Average of all finger extensions (inverse of curls)
     const rawOpenness = 1 - (smoothIndex + smoothMiddle + smoothRing + smoothPinky) / 4;
-    const openness = this.slowSmoother.smoothValue('openness', rawOpenness);
+    const openness = this.smoother.smoothValue('openness', rawOpenness, dt);
 
     // === PINCH ===
     const thumbTip = lm[HandLandmark.THUMB_TIP];
     const indexTip = lm[HandLandmark.INDEX_FINGER_TIP];
     const pinchDist = this.distance3D(thumbTip, indexTip);
-    const rawPinchStrength = 1 - Math.min(1, Math.max(0, (pinchDist - 0.02) / 0.12));
-    const pinchStrength = this.fastSmoother.smoothValue('pinch', rawPinchStrength);
+    const rawPinchStrength = 1 - Math.min(1, Math.max(0, (pinchDist - pinchMin) / pinchRange));
+    const pinchStrength = this.smoother.smoothValue('pinch', rawPinchStrength, dt);
     
-    const pinchPosition = this.smoother.smoothVector('pinchPos', {
+    const rawPinchPosition = {
       x: ((thumbTip.x + indexTip.x) / 2 - 0.5) * 2,
       y: -((thumbTip.y + indexTip.y) / 2 - 0.5) * 2,
       z: (thumbTip.z + indexTip.z) / 2 * 2,
-    });
+    };
+    const pinchPosition = this.smoother.smoothVector('pinchPosition', rawPinchPosition, dt);
+    const predictedPinchPosition = this.predictAhead('pinchPosition', rawPinchPosition, pinchPosition, dt, lead);
 
     // === FINGER SPREAD ===
     const fingerSpread = this.calculateFingerSpread(lm);
-    const smoothSpread = this.smoother.smoothValue('spread', fingerSpread);
+    const smoothSpread = this.smoother.smoothValue('spread', fingerSpread, dt);
 
     // === PALM ORIENTATION ===
     const palmNormal = this.calculatePalmNormal(lm);
-    const smoothPalmNormal = this.smoother.smoothVector('palmNormal', palmNormal);
-    const palmFacingCamera = this.slowSmoother.smoothValue('palmFacing', palmNormal.z > 0 ? 1 : -1);
-    const palmTilt = this.smoother.smoothValue('palmTilt', palmNormal.x);
+    const smoothPalmNormal = this.smoother.smoothVector('palmNormal', palmNormal, dt);
+    // MediaPipe z is negative toward the camera
+    const palmFacingCamera = this.smoother.smoothValue('palmFacing', palmNormal.z < 0 ? 1 : -1, dt);
+    const palmTilt = this.smoother.smoothValue('palmTilt', palmNormal.x, dt);
 
     // === POINTING ===
     const indexMcp = lm[HandLandmark.INDEX_FINGER_MCP];
@@ -219,17 +367,17 @@ export class HandMetricsExtractor {
       y: -(indexTip.y - indexMcp.y),
       z: indexTip.z - indexMcp.z,
     });
-    const pointDirection = this.smoother.smoothVector('pointDir', pointDir);
+    const pointDirection = this.smoother.smoothVector('pointDirection', pointDir, dt);
     
     // Point strength: index extended, others curled
     const pointStrength = (1 - smoothIndex) * (smoothMiddle + smoothRing + smoothPinky) / 3;
-    const smoothPointStrength = this.smoother.smoothValue('pointStr', pointStrength);
+    const smoothPointStrength = this.smoother.smoothValue('pointStrength', pointStrength, dt);
 
     // === GRIP ===
     // Grip = all fingers curled but not fully closed
     const avgCurl = (smoothIndex + smoothMiddle + smoothRing + smoothPinky) / 4;
     const gripStrength = avgCurl * (1 - rawPinchStrength * 0.5);
-    const smoothGrip = this.smoother.smoothValue('grip', gripStrength);
+    const smoothGrip = this.smoother.smoothValue('grip', gripStrength, dt);
 
     // === DERIVED METRICS ===
     // Tension: how much "effort" in the pose
@@ -238,7 +386,7 @@ export class HandMetricsExtractor {
       gripStrength,
       Math.abs(openness - 0.5) * 2 // Extreme open or closed = tension
     );
-    const smoothTension = this.slowSmoother.smoothValue('tension', tension);
+    const smoothTension = this.smoother.smoothValue('tension', tension, dt);
 
     // Expressiveness: how much the hand is "doing" (not neutral)
     const neutralOpenness = 0.6; // Relaxed hand is slightly open
@@ -246,7 +394,7 @@ export class HandMetricsExtractor {
                           pinchStrength * 0.3 + 
                           smoothPointStrength * 0.3 +
                           speed * 0.4;
-    const smoothExpressiveness = this.smoother.smoothValue('expr', Math.min(1, expressiveness));
+    const smoothExpressiveness = this.smoother.smoothValue('expressiveness', Math.min(1, expressiveness), dt);
 
     // Store landmarks
     const landmarks: Vector3[] = lm.map(l => ({
@@ -255,19 +403,25 @@ export class HandMetricsExtractor {
       z: l.z * 2,
     }));
 
-    return {
+    this.lastTracked = {
       isPresent: true,
-      confidence: 0.9, // Could be derived from MediaPipe confidence
+      trackingState: 'tracking',
+      handedness: this.handedness,
+      confidence,
 
       position,
       velocity,
-      speed: this.smoother.smoothValue('speed', speed),
+      speed: this.smoother.smoothValue('speed', speed, dt),
 
       openness,
       pinchStrength,
       pinchPosition,
       fingerSpread: smoothSpread,
 
+      latency: this.latency,
+      predictedPosition,
+      predictedPinchPosition,
+
       palmNormal: smoothPalmNormal,
       palmFacingCamera,
       palmTilt,
@@ -292,6 +446,81 @@ export class HandMetricsExtractor {
 
       landmarks,
     };
+    return this.lastTracked;
+  }
+
+  /**
+   * Track the raw signal's rate and extrapolate the smoothed value by `lead` seconds
+   */
+  private predictAhead(
+    key: 'position' | 'pinchPosition',
+    raw: Vector3,
+    smoothed: Vector3,
+    dt: number,
+    lead: number
+  ): Vector3 {
+    const [tx, ty, tz] = this.motionTrackers[key];
+    tx.update(raw.x, dt);
+    ty.update(raw.y, dt);
+    tz.update(raw.z, dt);
+    return {
+      x: smoothed.x + tx.getRate() * lead,
+      y: smoothed.y + ty.getRate() * lead,
+      z: smoothed.z + tz.getRate() * lead,
+    };
+  }
+
+  /**
+   * Extrapolate the last tracked frame and fade it toward the empty state
+   */
+  private predict(last: ContinuousHandMetrics, elapsed: number): ContinuousHandMetrics {
+    const fade = 1 - elapsed / this.gracePeriod;
+    const empty = this.getEmptyMetrics();
+    const toward = (value: number, rest: number) => rest + (value - rest) * fade;
+
+    // Keep moving with the last velocity, decelerating to a stop at the end of the window
+    const travel = elapsed * (1 - elapsed / (2 * this.gracePeriod));
+    const offset = {
+      x: last.velocity.x * travel,
+      y: last.velocity.y * travel,
+      z: last.velocity.z * travel,
+    };
+    const shift = (v: Vector3): Vector3 => ({ x: v.x + offset.x, y: v.y + offset.y, z: v.z + offset.z });
+
+    const position = shift(last.position);
+    this.lastPosition = { ...position };
+
+    return {
+      ...last,
+      trackingState: 'predicting',
+      confidence: last.confidence * fade,
+
+      position,
+      velocity: {
+        x: last.velocity.x * fade,
+        y: last.velocity.y * fade,
+        z: last.velocity.z * fade,
+      },
+      speed: last.speed * fade,
+
+      openness: toward(last.openness, empty.openness),
+      pinchStrength: last.pinchStrength * fade,
+      pinchPosition: shift(last.pinchPosition),
+      fingerSpread: last.fingerSpread * fade,
+
+      predictedPosition: shift(last.predictedPosition),
+      predictedPinchPosition: shift(last.predictedPinchPosition),
+
+      pointStrength: last.pointStrength * fade,
+      gripStrength: last.gripStrength * fade,
+
+      energy: this.energy,
+      tension: last.tension * fade,
+      expressiveness: last.expressiveness * fade,
+
+      depth: position.z,
+      landmarks: last.landmarks.map(l => ({ x: l.x + offset.x, y: l.y + offset.y, z: l.z })),
+    };
   }
 
   private calculateFingerCurl(lm: Landmark[], finger: string): number {
@@ -341,7 +570,7 @@ export class HandMetricsExtractor {
     const pipToWrist = this.distance3D(lm[pip], wrist);
     
     // If tip is closer to wrist than pip, finger is curled
-    const curl = 1 - Math.min(1, tipToWrist / (mcpToWrist * 1.3));
+    const curl = 1 - Math.min(1, tipToWrist / (mcpToWrist * this.calibration.curlDivisor));
     
     // Also check Y position (tip should be below pip if curled)
     const yFactor = lm[tip].y > lm[pip].y ? 0.3 : 0;
@@ -362,8 +591,9 @@ export class HandMetricsExtractor {
     
     const avgDist = (d1 + d2 + d3) / 3;
     
-    // Normalize: ~0.02 = together, ~0.1 = spread
-    return Math.min(1, Math.max(0, (avgDist - 0.02) / 0.08));
+    // Normalize between fingers together and fully spread
+    const { spreadMin, spreadRange } = this.calibration;
+    return Math.min(1, Math.max(0, (avgDist - spreadMin) / spreadRange));
   }
 
   private calculatePalmNormal(lm: Landmark[]): Vector3 {
@@ -384,11 +614,13 @@ export class HandMetricsExtractor {
       z: middleMcp.z - wrist.z,
     };
 
-    // Cross product = normal
+    // Cross product = normal. Mirror-image hands wind the other way, so
+    // flip it to keep "palm side" pointing out of the palm for both hands.
+    const chirality = handChirality(this.handedness, this.mirrored);
     const normal = {
-      x: v1.y * v2.z - v1.z * v2.y,
-      y: v1.z * v2.x - v1.x * v2.z,
-      z: v1.x * v2.y - v1.y * v2.x,
+      x: (v1.y * v2.z - v1.z * v2.y) * chirality,
+      y: (v1.z * v2.x - v1.x * v2.z) * chirality,
+      z: (v1.x * v2.y - v1.y * v2.x) * chirality,
     };
 
     return this.normalize(normal);
@@ -410,6 +642,8 @@ export class HandMetricsExtractor {
   private getEmptyMetrics(): ContinuousHandMetrics {
     return {
       isPresent: false,
+      trackingState: 'lost',
+      handedness: this.handedness,
       confidence: 0,
       position: { x: 0, y: 0, z: 0 },
       velocity: { x: 0, y: 0, z: 0 },
@@ -418,6 +652,9 @@ export class HandMetricsExtractor {
       pinchStrength: 0,
       pinchPosition: { x: 0, y: 0, z: 0 },
       fingerSpread: 0,
+      latency: this.latency,
+      predictedPosition: { x: 0, y: 0, z: 0 },
+      predictedPinchPosition: { x: 0, y: 0, z: 0 },
       palmNormal: { x: 0, y: 0, z: 1 },
       palmFacingCamera: 1,
       palmTilt: 0,
@@ -440,9 +677,100 @@ export class HandMetricsExtractor {
 
   reset() {
     this.smoother.reset();
-    this.fastSmoother.reset();
-    this.slowSmoother.reset();
+    this.lastPosition = null;
+    this.lastTime = 0;
     this.energy = 0;
+    this.lastTracked = null;
+    this.lostFor = 0;
+    this.latency = 0;
+    this.resetMotionTrackers();
+  }
+
+  private resetMotionTrackers() {
+    Object.values(this.motionTrackers).forEach(trackers => trackers.forEach(t => t.reset()));
   }
 }
 
+
+// ============================================================
+// TWO-HAND METRICS
+// ============================================================
+
+/**
+ * One tracked hand with its own extractor state
+ */
+export interface TrackedHand {
+  handedness: Handedness;    // The user's physical hand
+  score: number;             // Handedness classification confidence
+  metrics: ContinuousHandMetrics;
+  gesture: GestureState;     // Debounced discrete gesture
+  customPose: CustomPoseState | null;  // Active user-trained pose
+}
+
+/**
+ * Metrics derived from the relationship between two hands
+ */
+export interface InterHandMetrics {
+  isPresent: boolean;        // True only when both hands are tracked
+  distance: number;          // Distance between hand positions (normalized units, 0 to ~2.8)
+  relativeRotation: number;  // Roll of the right hand relative to the left (radians, -PI to PI)
+  axisAngle: number;         // Angle of the line from left to right hand (radians, 0 = horizontal)
+  midpoint: Vector3;         // Point halfway between the hands
+}
+
+/**
+ * Everything the tracker knows about the current frame
+ */
+export interface MultiHandMetrics {
+  primary: ContinuousHandMetrics;  // Main hand - drives the single-hand controls
+  hands: TrackedHand[];            // All tracked hands, sorted left to right on screen
+  interHand: InterHandMetrics;
+  gesture: GestureState;           // Active gesture of the primary hand
+  gestureEvents: GestureEvent[];   // Gesture transitions on this frame (all hands)
+  motionEvents: MotionEvent[];     // Movements recognized on this frame (all hands)
+  customPose: CustomPoseState | null;    // Active user-trained pose of the primary hand
+  customPoseEvents: CustomPoseEvent[];   // User-trained pose transitions on this frame (all hands)
+}
+
+export const createEmptyInterHandMetrics = (): InterHandMetrics => ({
+  isPresent: false,
+  distance: 0,
+  relativeRotation: 0,
+  axisAngle: 0,
+  midpoint: { x: 0, y: 0, z: 0 },
+});
+
+// In-plane hand roll: direction from wrist to middle finger MCP
+const handRoll = (m: ContinuousHandMetrics): number => {
+  const wrist = m.landmarks[HandLandmark.WRIST];
+  const middleMcp = m.landmarks[HandLandmark.MIDDLE_FINGER_MCP];
+  if (!wrist || !middleMcp) return Math.PI / 2;
+  return Math.atan2(middleMcp.y - wrist.y, middleMcp.x - wrist.x);
+};
+
+const wrapAngle = (a: number): number => Math.atan2(Math.sin(a), Math.cos(a));
+
+/**
+ * Derive inter-hand metrics from the leftmost (a) and rightmost (b) hand
+ */
+export const computeInterHandMetrics = (
+  a: ContinuousHandMetrics,
+  b: ContinuousHandMetrics
+): InterHandMetrics => {
+  if (!a.isPresent || !b.isPresent) return createEmptyInterHandMetrics();
+
+  const dx = b.position.x - a.position.x;
+  const dy = b.position.y - a.position.y;
+
+  return {
+    isPresent: true,
+    distance: Math.sqrt(dx * dx + dy * dy),
+    relativeRotation: wrapAngle(handRoll(b) - handRoll(a)),
+    axisAngle: Math.atan2(dy, dx),
+    midpoint: {
+      x: (a.position.x + b.position.x) / 2,
+      y: (a.position.y + b.position.y) / 2,
+      z: (a.depth + b.depth) / 2,
+    },
+  };
+};
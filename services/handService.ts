@@ -1,88 +1,314 @@
-import { HandMetricsExtractor, ContinuousHandMetrics } from './handMetrics';
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { MultiHandMetrics } from './handMetrics';
+import { MultiHandProcessor } from './multiHandProcessor';
+import { InputSourceError, RawFrameListener, RawHandDetection } from './inputSource';
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, getVideoConstraints } from './cameraSettings';
+import { calibrationStore } from './calibration';
+import { trackingSettings } from './trackingSettings';
+import { poseClassifier } from './poseClassifier';
+import { createHandLandmarker, toRawDetections } from './handLandmarker';
+import type { HandWorkerRequest, HandWorkerResponse } from './handTracking.worker';
 
+// Map getUserMedia failures to what the UI can explain
+const cameraError = (err: unknown): InputSourceError => {
+  switch (err instanceof DOMException ? err.name : '') {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new InputSourceError('permission-denied');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new InputSourceError('no-device');
+    case 'NotReadableError':
+    case 'AbortError':
+      return new InputSourceError('device-busy');
+    default:
+      return new InputSourceError('unknown', err instanceof Error ? err.message : undefined);
+  }
+};
+
+/**
+ * Camera hand tracking. Detection and metric extraction run in a worker
+ * when the browser supports it, otherwise on the main thread.
+ */
 export class HandService {
-  private hands: any;
-  private camera: any;
+  private worker: Worker | null = null;
+  private workerBusy = false;  // One frame in flight - newer frames are skipped meanwhile
+  private unsubscribeWorkerSync: (() => void) | null = null;
+  private landmarker: HandLandmarker | null = null;  // Main-thread fallback
+  private stream: MediaStream | null = null;
   private videoElement: HTMLVideoElement | null = null;
-  private onResultsCallback: (metrics: ContinuousHandMetrics) => void;
-  private metricsExtractor = new HandMetricsExtractor();
+  private onResultsCallback: (frame: MultiHandMetrics) => void;
+  private onRawResultsCallback?: RawFrameListener;
+  private onErrorCallback?: (error: InputSourceError) => void;
+  private processor = new MultiHandProcessor();
   private lastTime: number = 0;
+  private lastDeltaTime: number = 0.016;
+  private lastTimestamp: number = -1;
+  private frameRequest: number | null = null;
+  private stopped = false;
+  private cameraRequest = 0;
 
-  constructor(onResults: (metrics: ContinuousHandMetrics) => void) {
+  /**
+   * `onError` reports failures after `initialize()` resolved, e.g. the
+   * camera being unplugged.
+   */
+  constructor(
+    onResults: (frame: MultiHandMetrics) => void,
+    onRawResults?: RawFrameListener,
+    onError?: (error: InputSourceError) => void
+  ) {
     this.onResultsCallback = onResults;
+    this.onRawResultsCallback = onRawResults;
+    this.onErrorCallback = onError;
   }
 
-  public async initialize() {
-    const checkLib = () => (window as any).Hands && (window as any).Camera;
-    
-    if (!checkLib()) {
-      console.warn("MediaPipe libraries not loaded yet. Retrying...");
-      for (let i = 0; i < 10; i++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        if (checkLib()) break;
+  /**
+   * Load the landmarker and open the camera. Rejects with an
+   * `InputSourceError` describing what went wrong.
+   */
+  public async initialize(settings: CameraSettings = DEFAULT_CAMERA_SETTINGS) {
+    if (!(await this.startWorker())) {
+      try {
+        this.landmarker = await createHandLandmarker();
+      } catch (err) {
+        console.error('Hand landmarker failed to load', err);
+        throw new InputSourceError('library-missing');
       }
-      if (!checkLib()) {
-        console.error("MediaPipe libraries failed to load");
-        return;
+    }
+
+    // Stopped while the model was loading
+    if (this.stopped) {
+      this.releaseResources();
+      return;
+    }
+
+    this.videoElement = document.createElement('video');
+    this.videoElement.style.display = 'none';
+    this.videoElement.id = 'hand-tracking-video';
+    this.videoElement.playsInline = true;
+    this.videoElement.muted = true;
+    document.body.appendChild(this.videoElement);
+
+    await this.setCamera(settings);
+    this.scheduleFrame();
+  }
+
+  /**
+   * Open (or switch to) the camera described by `settings`. The landmarker
+   * and video element are kept, so switching does not reload anything.
+   */
+  public async setCamera(settings: CameraSettings) {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new InputSourceError('no-device', 'Câmera indisponível neste navegador');
+    }
+    const request = ++this.cameraRequest;
+
+    // Release the current camera first - some devices refuse a second stream
+    this.stopStream();
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: getVideoConstraints(settings), audio: false });
+    } catch (err) {
+      // A remembered camera that is gone falls back to the default one
+      const missing = err instanceof DOMException && (err.name === 'NotFoundError' || err.name === 'OverconstrainedError');
+      if (!settings.deviceId || !missing) throw cameraError(err);
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: getVideoConstraints({ ...settings, deviceId: null }),
+          audio: false,
+        });
+      } catch (fallbackErr) {
+        throw cameraError(fallbackErr);
       }
     }
 
-    const { Hands, Camera } = window as any;
+    // Superseded by a newer switch, or stopped while waiting for permission
+    if (request !== this.cameraRequest || this.stopped || !this.videoElement) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
 
-    this.hands = new Hands({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      },
+    this.stream = stream;
+    stream.getVideoTracks().forEach((track) => {
+      track.addEventListener('ended', () => {
+        if (this.stream === stream && !this.stopped) {
+          this.onErrorCallback?.(new InputSourceError('no-device', 'A câmera foi desconectada'));
+        }
+      });
     });
 
-    this.hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1,        // Full model for accuracy
-      minDetectionConfidence: 0.7,
-      minTrackingConfidence: 0.6,
+    this.videoElement.srcObject = stream;
+    await this.videoElement.play();
+  }
+
+  // Resolves false when workers are unavailable or the landmarker fails to load in one
+  private async startWorker(): Promise<boolean> {
+    if (typeof Worker === 'undefined' || typeof createImageBitmap === 'undefined') return false;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./handTracking.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+      console.warn('Hand tracking worker unavailable, running on the main thread:', err);
+      return false;
+    }
+
+    const ready = await new Promise<boolean>((resolve) => {
+      worker.onmessage = (e: MessageEvent<HandWorkerResponse>) => {
+        if (e.data.type === 'error') console.warn('Hand tracking worker failed, running on the main thread:', e.data.message);
+        resolve(e.data.type === 'ready');
+      };
+      worker.onerror = (e) => {
+        console.warn('Hand tracking worker failed, running on the main thread:', e.message);
+        resolve(false);
+      };
+      this.postToWorker(worker, { type: 'init', timeOrigin: performance.timeOrigin });
     });
 
-    this.hands.onResults(this.processResults);
+    if (!ready || this.stopped) {
+      worker.terminate();
+      return ready;
+    }
 
-    this.videoElement = document.createElement('video');
-    this.videoElement.style.display = 'none';
-    this.videoElement.id = 'hand-tracking-video';
-    document.body.appendChild(this.videoElement);
+    worker.onmessage = this.onWorkerMessage;
+    worker.onerror = null;
+    this.worker = worker;
 
-    this.camera = new Camera(this.videoElement, {
-      onFrame: async () => {
-        if (this.videoElement && this.hands) {
-          await this.hands.send({ image: this.videoElement });
-        }
-      },
-      width: 640,
-      height: 480,
+    // The worker has no localStorage - keep its copies of the shared stores current
+    const syncConfig = () => this.postToWorker(worker, {
+      type: 'config',
+      calibration: calibrationStore.getActive(),
+      settings: trackingSettings.get(),
     });
+    const syncPoses = () => this.postToWorker(worker, { type: 'poses', poses: poseClassifier.getPoses() });
+    syncConfig();
+    syncPoses();
+    const unsubscribers = [
+      calibrationStore.subscribe(syncConfig),
+      trackingSettings.subscribe(syncConfig),
+      poseClassifier.subscribe(syncPoses),
+    ];
+    this.unsubscribeWorkerSync = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    return true;
+  }
 
-    this.camera.start();
+  private postToWorker(worker: Worker, request: HandWorkerRequest, transfer: Transferable[] = []) {
+    worker.postMessage(request, transfer);
   }
 
-  private processResults = (results: any) => {
+  private onWorkerMessage = (e: MessageEvent<HandWorkerResponse>) => {
+    const response = e.data;
+    this.workerBusy = false;
+    if (response.type === 'error') {
+      console.warn('Hand tracking worker error:', response.message);
+      return;
+    }
+    if (response.type !== 'result') return;
+
     const now = performance.now();
-    const deltaTime = this.lastTime > 0 ? (now - this.lastTime) / 1000 : 0.016;
+    this.lastDeltaTime = this.lastTime > 0 ? (now - this.lastTime) / 1000 : 0.016;
     this.lastTime = now;
 
-    const landmarks = results.multiHandLandmarks?.[0] ?? null;
-    const metrics = this.metricsExtractor.extract(landmarks, deltaTime);
-    
-    this.onResultsCallback(metrics);
+    this.onRawResultsCallback?.(response.detections, now);
+    this.onResultsCallback(response.frame);
   };
 
+  // Run detection once per decoded video frame
+  private scheduleFrame() {
+    const video = this.videoElement;
+    if (!video || this.stopped) return;
+
+    if ('requestVideoFrameCallback' in video) {
+      this.frameRequest = video.requestVideoFrameCallback((now, metadata) => {
+        this.detect(now, metadata.captureTime);
+        this.scheduleFrame();
+      });
+    } else {
+      this.frameRequest = requestAnimationFrame((now) => {
+        this.detect(now);
+        this.scheduleFrame();
+      });
+    }
+  }
+
+  private detect(now: number, frameCaptureTime?: number) {
+    const video = this.videoElement;
+    if (!video || !this.stream || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    if (this.worker ? this.workerBusy : !this.landmarker) return;
+
+    // detectForVideo needs strictly increasing timestamps
+    const timestamp = Math.max(now, this.lastTimestamp + 1);
+    this.lastTimestamp = timestamp;
+
+    // Prefer the camera's own capture time. Without it, assume the frame
+    // waited half a frame interval before detection started.
+    const captureTime = frameCaptureTime ?? performance.now() - this.lastDeltaTime * 500;
+
+    if (this.worker) {
+      const worker = this.worker;
+      this.workerBusy = true;
+      createImageBitmap(video).then(
+        (bitmap) => {
+          if (this.worker !== worker) {
+            bitmap.close();
+            return;
+          }
+          this.postToWorker(worker, { type: 'frame', bitmap, timestamp, captureTime }, [bitmap]);
+        },
+        () => { this.workerBusy = false; }
+      );
+      return;
+    }
+
+    const result = this.landmarker!.detectForVideo(video, timestamp);
+    this.processResults(toRawDetections(result), captureTime);
+  }
+
+  private processResults(detections: RawHandDetection[], captureTime: number) {
+    const now = performance.now();
+    this.lastDeltaTime = this.lastTime > 0 ? (now - this.lastTime) / 1000 : 0.016;
+    this.lastTime = now;
+
+    this.onRawResultsCallback?.(detections, now);
+    this.onResultsCallback(this.processor.process(detections, this.lastDeltaTime, captureTime));
+  }
+
   public getVideoElement(): HTMLVideoElement | null {
     return this.videoElement;
   }
 
+  private stopStream() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  private releaseResources() {
+    this.stopStream();
+    this.unsubscribeWorkerSync?.();
+    this.unsubscribeWorkerSync = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.landmarker?.close();
+    this.landmarker = null;
+  }
+
   public stop() {
-    if (this.camera) this.camera.stop();
+    this.stopped = true;
+    if (this.frameRequest !== null && this.videoElement) {
+      if ('cancelVideoFrameCallback' in this.videoElement) {
+        this.videoElement.cancelVideoFrameCallback(this.frameRequest);
+      } else {
+        cancelAnimationFrame(this.frameRequest);
+      }
+    }
+    this.frameRequest = null;
     if (this.videoElement) this.videoElement.remove();
-    this.metricsExtractor.reset();
+    this.videoElement = null;
+    this.releaseResources();
+    this.processor.reset();
   }
 }
 
 // Re-export for convenience
-export type { ContinuousHandMetrics } from './handMetrics';
+export type { ContinuousHandMetrics, MultiHandMetrics, TrackedHand, InterHandMetrics } from './handMetrics';
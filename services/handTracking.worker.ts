@@ -0,0 +1,110 @@
+/**
+ * Hand Tracking Worker
+ *
+ * Runs landmark detection and metric extraction off the main thread, so the
+ * particle loop keeps its frame budget. `HandService` transfers each video
+ * frame as an `ImageBitmap` and receives finished `MultiHandMetrics` frames.
+ *
+ * The worker has no localStorage, so the main thread pushes the active
+ * calibration, tracking settings and pose library whenever they change.
+ */
+
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { MultiHandMetrics } from './handMetrics';
+import { RawHandDetection } from './inputSource';
+import { MultiHandProcessor } from './multiHandProcessor';
+import { CalibrationProfile, DEFAULT_CALIBRATION } from './calibration';
+import { DEFAULT_TRACKING_SETTINGS, TrackingSettings } from './trackingSettings';
+import { CustomPose, PoseClassifier } from './poseClassifier';
+import { createHandLandmarker, toRawDetections } from './handLandmarker';
+
+export type HandWorkerRequest =
+  | { type: 'init'; timeOrigin: number }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number; captureTime: number }
+  | { type: 'config'; calibration: CalibrationProfile; settings: TrackingSettings }
+  | { type: 'poses'; poses: CustomPose[] };
+
+export type HandWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; detections: RawHandDetection[]; frame: MultiHandMetrics };
+
+// tasks-vision loads its WASM glue with importScripts, which module workers
+// do not have. Fetch it synchronously and run it in the global scope instead.
+(self as unknown as { importScripts: (...urls: string[]) => void }).importScripts = (...urls) => {
+  urls.forEach((url) => {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    (0, eval)(request.responseText);
+  });
+};
+
+let landmarker: HandLandmarker | null = null;
+let calibration = DEFAULT_CALIBRATION;
+let settings = DEFAULT_TRACKING_SETTINGS;
+let clockOffset = 0;  // Added to a main-thread performance.now() to get this worker's
+let lastTime = 0;
+
+const classifier = new PoseClassifier();
+const processor = new MultiHandProcessor({
+  classifier,
+  calibration: { getActive: () => calibration },
+  settings: { get: () => settings },
+});
+
+const post = (response: HandWorkerResponse) => self.postMessage(response);
+
+const detect = (bitmap: ImageBitmap, timestamp: number, captureTime: number) => {
+  if (!landmarker) {
+    bitmap.close();
+    return;
+  }
+  let result;
+  try {
+    result = landmarker.detectForVideo(bitmap, timestamp);
+  } finally {
+    bitmap.close();
+  }
+
+  const now = performance.now();
+  const deltaTime = lastTime > 0 ? (now - lastTime) / 1000 : 0.016;
+  lastTime = now;
+
+  const detections = toRawDetections(result);
+  post({
+    type: 'result',
+    detections,
+    frame: processor.process(detections, deltaTime, captureTime + clockOffset),
+  });
+};
+
+self.addEventListener('message', async (e: MessageEvent<HandWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      clockOffset = message.timeOrigin - performance.timeOrigin;
+      try {
+        landmarker = await createHandLandmarker();
+        post({ type: 'ready' });
+      } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    case 'frame':
+      try {
+        detect(message.bitmap, message.timestamp, message.captureTime);
+      } catch (err) {
+        // Still answer so the main thread sends the next frame
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    case 'config':
+      calibration = message.calibration;
+      settings = message.settings;
+      break;
+    case 'poses':
+      classifier.setPoses(message.poses);
+      break;
+  }
+});
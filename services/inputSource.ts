@@ -0,0 +1,216 @@
+/**
+ * Hand Input Sources
+ *
+ * Everything that can drive the particle system - the camera tracker, the
+ * mouse simulator and whatever comes next - implements `HandInputSource`
+ * and emits `MultiHandMetrics` frames. `App` only talks to this interface,
+ * so new sources are added by registering them, not by editing `App`.
+ */
+
+import {
+  ContinuousHandMetrics,
+  Handedness,
+  MultiHandMetrics,
+  createEmptyInterHandMetrics,
+} from './handMetrics';
+import { Vector3 } from '../types';
+import { GestureEventListener, createIdleGesture } from './gestureTracker';
+import { MotionEventListener } from './motionRecognizer';
+import { CustomPoseEventListener } from './poseClassifier';
+
+export type InputSourceStatus = 'idle' | 'starting' | 'running' | 'error';
+
+// Allowed status changes. A running source goes back to 'starting' while it
+// switches devices, and a failed one can be started again.
+const STATUS_TRANSITIONS: Record<InputSourceStatus, InputSourceStatus[]> = {
+  idle: ['starting', 'running'],
+  starting: ['running', 'error', 'idle'],
+  running: ['starting', 'error', 'idle'],
+  error: ['starting', 'idle'],
+};
+
+/**
+ * Why a source failed to start or stopped working
+ */
+export type InputSourceErrorCode =
+  | 'library-missing'
+  | 'permission-denied'
+  | 'no-device'
+  | 'device-busy'
+  | 'webgl-lost'
+  | 'gpu-unsupported'
+  | 'bad-address'
+  | 'unknown';
+
+const ERROR_MESSAGES: Record<InputSourceErrorCode, string> = {
+  'library-missing': 'Não foi possível carregar o rastreamento de mãos',
+  'permission-denied': 'Permissão da câmera negada',
+  'no-device': 'Nenhuma câmera encontrada',
+  'device-busy': 'A câmera está em uso por outro aplicativo',
+  'webgl-lost': 'O contexto gráfico (WebGL) foi perdido',
+  'gpu-unsupported': 'A placa gráfica não consegue simular as partículas',
+  'bad-address': 'Endereço do rastreador externo inválido',
+  unknown: 'Falha ao iniciar a entrada',
+};
+
+export class InputSourceError extends Error {
+  constructor(public readonly code: InputSourceErrorCode, message: string = ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'InputSourceError';
+  }
+}
+
+export const toInputSourceError = (err: unknown): InputSourceError =>
+  err instanceof InputSourceError ? err : new InputSourceError('unknown');
+
+/**
+ * One hand as delivered by a landmark tracker, before metric extraction
+ */
+export interface RawHandDetection {
+  landmarks: Vector3[];      // 21 landmarks in MediaPipe image coordinates (0-1)
+  handedness: Handedness;
+  score: number;             // Handedness classification confidence
+}
+
+export type HandFrameListener = (frame: MultiHandMetrics) => void;
+export type RawFrameListener = (detections: RawHandDetection[], timestamp: number) => void;
+export type InputSourceStatusListener = (status: InputSourceStatus, error: InputSourceError | null) => void;
+
+export interface HandInputSource {
+  start(): Promise<void>;
+  stop(): void;
+  subscribe(listener: HandFrameListener): () => void;
+  subscribeRaw(listener: RawFrameListener): () => void;  // Raw landmarks, only from landmark-based sources
+  subscribeGestures(listener: GestureEventListener): () => void;
+  subscribeMotions(listener: MotionEventListener): () => void;
+  subscribeCustomPoses(listener: CustomPoseEventListener): () => void;
+  onStatusChange(listener: InputSourceStatusListener): () => void;
+  getStatus(): InputSourceStatus;
+  getError(): InputSourceError | null;         // Set while the status is 'error'
+  getVideoElement(): HTMLVideoElement | null;  // For the HUD preview, null if the source has no video
+}
+
+/**
+ * Listener and status bookkeeping shared by all sources
+ */
+export abstract class BaseInputSource implements HandInputSource {
+  private frameListeners = new Set<HandFrameListener>();
+  private rawListeners = new Set<RawFrameListener>();
+  private gestureListeners = new Set<GestureEventListener>();
+  private motionListeners = new Set<MotionEventListener>();
+  private customPoseListeners = new Set<CustomPoseEventListener>();
+  private statusListeners = new Set<InputSourceStatusListener>();
+  private status: InputSourceStatus = 'idle';
+  private error: InputSourceError | null = null;
+
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+
+  subscribe(listener: HandFrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => this.frameListeners.delete(listener);
+  }
+
+  subscribeRaw(listener: RawFrameListener): () => void {
+    this.rawListeners.add(listener);
+    return () => this.rawListeners.delete(listener);
+  }
+
+  subscribeGestures(listener: GestureEventListener): () => void {
+    this.gestureListeners.add(listener);
+    return () => this.gestureListeners.delete(listener);
+  }
+
+  subscribeMotions(listener: MotionEventListener): () => void {
+    this.motionListeners.add(listener);
+    return () => this.motionListeners.delete(listener);
+  }
+
+  subscribeCustomPoses(listener: CustomPoseEventListener): () => void {
+    this.customPoseListeners.add(listener);
+    return () => this.customPoseListeners.delete(listener);
+  }
+
+  onStatusChange(listener: InputSourceStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  getStatus(): InputSourceStatus {
+    return this.status;
+  }
+
+  getError(): InputSourceError | null {
+    return this.error;
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return null;
+  }
+
+  protected emit(frame: MultiHandMetrics) {
+    this.frameListeners.forEach(listener => listener(frame));
+    // Delivered separately so one-shot events are never lost to state batching
+    frame.gestureEvents.forEach(event => {
+      this.gestureListeners.forEach(listener => listener(event));
+    });
+    frame.motionEvents.forEach(event => {
+      this.motionListeners.forEach(listener => listener(event));
+    });
+    frame.customPoseEvents.forEach(event => {
+      this.customPoseListeners.forEach(listener => listener(event));
+    });
+  }
+
+  protected emitRaw(detections: RawHandDetection[], timestamp: number) {
+    this.rawListeners.forEach(listener => listener(detections, timestamp));
+  }
+
+  protected setStatus(status: InputSourceStatus, error?: InputSourceError) {
+    const nextError = status === 'error' ? error ?? new InputSourceError('unknown') : null;
+    if (status === this.status && nextError === this.error) return;
+    if (status !== this.status && !STATUS_TRANSITIONS[this.status].includes(status)) {
+      console.warn(`Ignoring input source status change ${this.status} -> ${status}`);
+      return;
+    }
+    this.status = status;
+    this.error = nextError;
+    this.statusListeners.forEach(listener => listener(status, nextError));
+  }
+}
+
+// Wrap a single hand (e.g. mouse simulation) as a tracking frame
+export const createSingleHandFrame = (metrics: ContinuousHandMetrics): MultiHandMetrics => ({
+  primary: metrics,
+  hands: metrics.isPresent ? [{ handedness: 'Right', score: 1, metrics, gesture: createIdleGesture(), customPose: null }] : [],
+  interHand: createEmptyInterHandMetrics(),
+  gesture: createIdleGesture(),
+  gestureEvents: [],
+  motionEvents: [],
+  customPose: null,
+  customPoseEvents: [],
+});
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+export interface InputSourceDescriptor {
+  id: string;
+  label: string;        // Name shown in the source picker
+  icon: string;
+  simulated: boolean;   // True when no real hand is being tracked
+  hint?: string;        // Short usage help for simulated sources
+  idleText: string;     // Shown while no hand is present
+  create: () => HandInputSource;
+}
+
+const registry = new Map<string, InputSourceDescriptor>();
+
+export const registerInputSource = (descriptor: InputSourceDescriptor) => {
+  registry.set(descriptor.id, descriptor);
+};
+
+export const getInputSources = (): InputSourceDescriptor[] => Array.from(registry.values());
+
+export const getInputSource = (id: string): InputSourceDescriptor | undefined => registry.get(id);
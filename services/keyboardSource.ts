@@ -0,0 +1,70 @@
+import { ControlState, ControllerInputSource, createNeutralControls } from './controllerSource';
+import { KeyAction, controlBindings } from './controlBindings';
+
+const MOVE_SPEED = 1.2;      // Position units per second while a move key is held
+const DEPTH_SPEED = 1.5;
+const TILT_SPEED = 1.5;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Typing a pose name must not move the hand
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Keyboard as an input source
+ *
+ * Move keys steer the hand (it stays where it was left), the other keys
+ * hold fingers in a pose. Keys come from `controlBindings`.
+ */
+export class KeyboardInputSource extends ControllerInputSource {
+  private pressed = new Set<string>();
+  private controls = createNeutralControls();
+
+  protected attach() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  protected detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.pressed.clear();
+    this.controls = createNeutralControls();
+  }
+
+  protected readControls(dt: number): ControlState {
+    const keys = controlBindings.get().keyboard;
+    const held = (action: KeyAction) => (this.pressed.has(keys[action]) ? 1 : 0);
+    const c = this.controls;
+
+    c.x = clamp(c.x + (held('right') - held('left')) * MOVE_SPEED * dt, -1, 1);
+    c.y = clamp(c.y + (held('up') - held('down')) * MOVE_SPEED * dt, -1, 1);
+    c.depth = clamp(c.depth + (held('farther') - held('nearer')) * DEPTH_SPEED * dt, -1, 1);
+    c.tilt = clamp(c.tilt + (held('tiltRight') - held('tiltLeft')) * TILT_SPEED * dt, -1, 1);
+    c.pinch = held('pinch');
+    c.grip = held('grip');
+    c.spread = held('spread');
+    c.point = held('point');
+    return c;
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (isEditable(e.target)) return;
+    if (!Object.values(controlBindings.get().keyboard).includes(e.code)) return;
+    e.preventDefault();  // Space would scroll, Shift-clicks would select...
+    this.pressed.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.pressed.delete(e.code);
+  };
+
+  // Keys released while the window was unfocused never send keyup
+  private handleBlur = () => {
+    this.pressed.clear();
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Metrics Output
+ *
+ * Streams the tracked hands to an external WebSocket endpoint at a fixed
+ * rate, as JSON (`outputSchema`) or OSC bundles (`osc`). Reads the latest
+ * frame from `metricsStore`, so it follows whichever source is active.
+ * Events from every frame in between are kept and sent with the next
+ * message. Reconnects on its own while enabled.
+ */
+
+import { MultiHandMetrics } from './handMetrics';
+import { metricsStore } from './metricsStore';
+import { OutputSettings, outputSettings } from './outputSettings';
+import { OutputEvent, serializeEvents, serializeFrame } from './outputSchema';
+import { encodeBundle, frameToOsc } from './osc';
+
+/**
+ * - off: output disabled
+ * - connecting: opening the socket (or waiting to retry)
+ * - connected: streaming
+ * - error: the endpoint refused or dropped the connection, retrying
+ */
+export type OutputStatus = 'off' | 'connecting' | 'connected' | 'error';
+
+type StatusListener = (status: OutputStatus) => void;
+
+const MAX_QUEUED_EVENTS = 256;
+const MAX_BUFFERED_BYTES = 256 * 1024;  // Skip frames while the socket is this far behind
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 10000;
+
+export class MetricsOutput {
+  private settings: OutputSettings = outputSettings.get();
+  private socket: WebSocket | null = null;
+  private status: OutputStatus = 'off';
+  private statusListeners = new Set<StatusListener>();
+  private events: OutputEvent[] = [];
+  private seq = 0;
+  private startTime = 0;
+  private sendTimer: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_MIN_MS;
+  private unsubscribers: (() => void)[] = [];
+
+  start() {
+    this.unsubscribers = [
+      outputSettings.subscribe(this.applySettings),
+      metricsStore.subscribe(this.collectEvents),
+    ];
+    this.settings = outputSettings.get();
+    if (this.settings.enabled) this.connect();
+  }
+
+  stop() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.disconnect();
+  }
+
+  getStatus(): OutputStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private setStatus(status: OutputStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private applySettings = (settings: OutputSettings) => {
+    const previous = this.settings;
+    this.settings = settings;
+
+    if (!settings.enabled) {
+      this.disconnect();
+    } else if (!previous.enabled || settings.url !== previous.url || this.status === 'off') {
+      this.disconnect();
+      this.connect();
+    } else if (settings.rate !== previous.rate && this.sendTimer) {
+      this.startSending();
+    }
+  };
+
+  private connect() {
+    this.clearRetry();
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.settings.url);
+    } catch (err) {
+      // Malformed URL - retrying will not help until the user changes it
+      console.warn('Invalid output URL:', err);
+      this.setStatus('error');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (socket !== this.socket) return;
+      this.retryDelay = RETRY_MIN_MS;
+      this.seq = 0;
+      this.startTime = performance.now();
+      this.events = [];
+      this.setStatus('connected');
+      this.startSending();
+    };
+    // Browsers follow an error with close, some runtimes don't - handle whichever comes first
+    socket.onclose = socket.onerror = () => {
+      if (socket !== this.socket) return;
+      this.socket = null;
+      socket.close();
+      this.stopSending();
+      this.setStatus('error');
+      this.scheduleRetry();
+    };
+  }
+
+  private disconnect() {
+    this.clearRetry();
+    this.stopSending();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.events = [];
+    this.setStatus('off');
+  }
+
+  private scheduleRetry() {
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.settings.enabled) this.connect();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(RETRY_MAX_MS, this.retryDelay * 2);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private startSending() {
+    this.stopSending();
+    this.sendTimer = setInterval(this.send, 1000 / this.settings.rate);
+  }
+
+  private stopSending() {
+    if (this.sendTimer) clearInterval(this.sendTimer);
+    this.sendTimer = null;
+  }
+
+  private collectEvents = (frame: MultiHandMetrics) => {
+    if (this.status !== 'connected') return;
+    if (!frame.gestureEvents.length && !frame.motionEvents.length && !frame.customPoseEvents.length) return;
+    this.events.push(...serializeEvents(frame, performance.now() - this.startTime));
+    // Keep the newest if the endpoint stalls for a long time
+    if (this.events.length > MAX_QUEUED_EVENTS) this.events.splice(0, this.events.length - MAX_QUEUED_EVENTS);
+  };
+
+  private send = () => {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    if (socket.bufferedAmount > MAX_BUFFERED_BYTES) return;  // Events stay queued for the next try
+
+    const frame = serializeFrame(
+      metricsStore.get(),
+      this.events,
+      this.seq++,
+      performance.now() - this.startTime,
+      this.settings.landmarks
+    );
+    this.events = [];
+
+    if (this.settings.protocol === 'osc') socket.send(encodeBundle(frameToOsc(frame)));
+    else socket.send(JSON.stringify(frame));
+  };
+}
+
+// Started by `App`, configured through `outputSettings`
+export const metricsOutput = new MetricsOutput();
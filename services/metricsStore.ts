@@ -0,0 +1,76 @@
+/**
+ * Metrics Store
+ *
+ * Holds the latest hand tracking frame outside React state. Render loops
+ * (`useFrame`, the HUD canvas) read it imperatively every frame, and React
+ * UI subscribes through the throttled hooks in `hooks/useMetrics`, so steady
+ * tracking never re-renders the component tree at the camera rate.
+ */
+
+import { ContinuousHandMetrics, MultiHandMetrics } from './handMetrics';
+import { createSingleHandFrame } from './inputSource';
+
+// Metrics for "no hand" - shown before the first frame and after the source stops
+export const createEmptyMetrics = (): ContinuousHandMetrics => ({
+  isPresent: false,
+  trackingState: 'lost',
+  handedness: null,
+  confidence: 0,
+  position: { x: 0, y: 0, z: 0 },
+  velocity: { x: 0, y: 0, z: 0 },
+  speed: 0,
+  openness: 0.6,
+  pinchStrength: 0,
+  pinchPosition: { x: 0, y: 0, z: 0 },
+  fingerSpread: 0,
+  latency: 0,
+  predictedPosition: { x: 0, y: 0, z: 0 },
+  predictedPinchPosition: { x: 0, y: 0, z: 0 },
+  palmNormal: { x: 0, y: 0, z: 1 },
+  palmFacingCamera: 1,
+  palmTilt: 0,
+  thumbCurl: 0,
+  indexCurl: 0,
+  middleCurl: 0,
+  ringCurl: 0,
+  pinkyCurl: 0,
+  pointDirection: { x: 0, y: -1, z: 0 },
+  pointStrength: 0,
+  gripStrength: 0,
+  energy: 0,
+  tension: 0,
+  expressiveness: 0,
+  depth: 0,
+  handSize: 0,
+  landmarks: [],
+});
+
+export const createEmptyFrame = (): MultiHandMetrics => createSingleHandFrame(createEmptyMetrics());
+
+type FrameListener = (frame: MultiHandMetrics) => void;
+
+export class MetricsStore {
+  private frame: MultiHandMetrics = createEmptyFrame();
+  private listeners = new Set<FrameListener>();
+
+  get(): MultiHandMetrics {
+    return this.frame;
+  }
+
+  set(frame: MultiHandMetrics) {
+    this.frame = frame;
+    this.listeners.forEach(listener => listener(frame));
+  }
+
+  reset() {
+    this.set(createEmptyFrame());
+  }
+
+  subscribe(listener: FrameListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// The active source writes here, renderers and UI read from here
+export const metricsStore = new MetricsStore();
@@ -0,0 +1,247 @@
+/**
+ * Temporal Motion Recognition
+ *
+ * Poses only describe the hand right now. This recognizer keeps a rolling
+ * history of `position`, `velocity` and `depth` and matches it against
+ * motion templates - swipes, circles, shakes, pushes - each yielding a
+ * recognition confidence.
+ */
+
+import { MotionType, Vector3 } from '../types';
+import { ContinuousHandMetrics, Handedness } from './handMetrics';
+
+interface MotionSample {
+  t: number;                 // ms
+  position: Vector3;
+  velocity: Vector3;
+  depth: number;
+}
+
+interface BaseTemplate {
+  motion: MotionType;
+  windowMs: number;          // How much history the template looks at
+  minConfidence: number;     // Recognized when confidence reaches this
+}
+
+export interface SwipeTemplate extends BaseTemplate {
+  kind: 'swipe';
+  direction: { x: number; y: number };  // Unit vector (y up)
+  minDistance: number;       // Normalized units (screen is 2 wide)
+  minSpeed: number;          // Average speed over the swipe (units/s)
+}
+
+export interface CircleTemplate extends BaseTemplate {
+  kind: 'circle';
+  clockwise: boolean;
+  minTurns: number;          // Fraction of a full turn required
+  minRadius: number;         // Normalized units
+}
+
+export interface ShakeTemplate extends BaseTemplate {
+  kind: 'shake';
+  axis: 'x' | 'y';
+  minReversals: number;      // Direction changes within the window
+  minAmplitude: number;      // Normalized units
+  minSpeed: number;          // Speed counted as a deliberate movement (units/s)
+}
+
+export interface DepthTemplate extends BaseTemplate {
+  kind: 'depth';
+  towardCamera: boolean;
+  minDelta: number;          // Change in the depth metric
+  maxDrift: number;          // Allowed sideways movement (normalized units)
+}
+
+export type MotionTemplate = SwipeTemplate | CircleTemplate | ShakeTemplate | DepthTemplate;
+
+const swipe = (motion: MotionType, x: number, y: number): SwipeTemplate => ({
+  kind: 'swipe', motion, direction: { x, y },
+  windowMs: 400, minConfidence: 0.75, minDistance: 0.6, minSpeed: 1.8,
+});
+
+export const DEFAULT_MOTION_TEMPLATES: MotionTemplate[] = [
+  swipe(MotionType.SWIPE_LEFT, -1, 0),
+  swipe(MotionType.SWIPE_RIGHT, 1, 0),
+  swipe(MotionType.SWIPE_UP, 0, 1),
+  swipe(MotionType.SWIPE_DOWN, 0, -1),
+  { kind: 'circle', motion: MotionType.CIRCLE_CW, clockwise: true, windowMs: 1500, minConfidence: 0.8, minTurns: 0.9, minRadius: 0.12 },
+  { kind: 'circle', motion: MotionType.CIRCLE_CCW, clockwise: false, windowMs: 1500, minConfidence: 0.8, minTurns: 0.9, minRadius: 0.12 },
+  { kind: 'shake', motion: MotionType.SHAKE, axis: 'x', windowMs: 800, minConfidence: 0.8, minReversals: 4, minAmplitude: 0.08, minSpeed: 0.8 },
+  { kind: 'depth', motion: MotionType.PUSH, towardCamera: true, windowMs: 500, minConfidence: 0.8, minDelta: 0.6, maxDrift: 0.3 },
+  { kind: 'depth', motion: MotionType.PULL, towardCamera: false, windowMs: 500, minConfidence: 0.8, minDelta: 0.6, maxDrift: 0.3 },
+];
+
+export interface MotionEvent {
+  type: 'motion';
+  motion: MotionType;
+  handedness: Handedness;
+  confidence: number;
+  timestamp: number;
+  position: Vector3;         // Hand position when recognized (z = depth)
+}
+
+export type MotionEventListener = (event: MotionEvent) => void;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// === TEMPLATE SCORING ===
+
+const scoreSwipe = (samples: MotionSample[], tpl: SwipeTemplate): number => {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const dx = last.position.x - first.position.x;
+  const dy = last.position.y - first.position.y;
+  const duration = (last.t - first.t) / 1000;
+  if (duration <= 0) return 0;
+
+  const along = dx * tpl.direction.x + dy * tpl.direction.y;
+  if (along <= 0) return 0;
+  const perp = Math.abs(dx * tpl.direction.y - dy * tpl.direction.x);
+
+  const distance = clamp01(along / tpl.minDistance);
+  const straightness = clamp01(1 - perp / along);
+  const speed = clamp01(along / duration / tpl.minSpeed);
+  return distance * straightness * speed;
+};
+
+const scoreCircle = (samples: MotionSample[], tpl: CircleTemplate): number => {
+  // Accumulate how much the velocity direction turns
+  let turned = 0;
+  let lastAngle: number | null = null;
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+
+  samples.forEach((s) => {
+    minX = Math.min(minX, s.position.x);
+    maxX = Math.max(maxX, s.position.x);
+    minY = Math.min(minY, s.position.y);
+    maxY = Math.max(maxY, s.position.y);
+
+    if (Math.hypot(s.velocity.x, s.velocity.y) < 0.3) return;
+    const angle = Math.atan2(s.velocity.y, s.velocity.x);
+    if (lastAngle !== null) {
+      turned += Math.atan2(Math.sin(angle - lastAngle), Math.cos(angle - lastAngle));
+    }
+    lastAngle = angle;
+  });
+
+  // y is up, so clockwise turns are negative
+  const turns = (tpl.clockwise ? -turned : turned) / (Math.PI * 2);
+  if (turns <= 0) return 0;
+
+  const radius = Math.min(maxX - minX, maxY - minY) / 2;
+  return clamp01(turns / tpl.minTurns) * clamp01(radius / tpl.minRadius);
+};
+
+const scoreShake = (samples: MotionSample[], tpl: ShakeTemplate): number => {
+  let reversals = 0;
+  let lastSign = 0;
+  let min = Infinity, max = -Infinity;
+
+  samples.forEach((s) => {
+    const p = s.position[tpl.axis];
+    min = Math.min(min, p);
+    max = Math.max(max, p);
+
+    const v = s.velocity[tpl.axis];
+    if (Math.abs(v) < tpl.minSpeed) return;
+    const sign = Math.sign(v);
+    if (lastSign !== 0 && sign !== lastSign) reversals++;
+    lastSign = sign;
+  });
+
+  return clamp01(reversals / tpl.minReversals) * clamp01((max - min) / tpl.minAmplitude);
+};
+
+const scoreDepth = (samples: MotionSample[], tpl: DepthTemplate): number => {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  // Negative depth = closer to the camera
+  const delta = (first.depth - last.depth) * (tpl.towardCamera ? 1 : -1);
+  if (delta <= 0) return 0;
+
+  const drift = Math.hypot(last.position.x - first.position.x, last.position.y - first.position.y);
+  return clamp01(delta / tpl.minDelta) * clamp01(1 - drift / tpl.maxDrift);
+};
+
+const scoreTemplate = (samples: MotionSample[], tpl: MotionTemplate): number => {
+  switch (tpl.kind) {
+    case 'swipe': return scoreSwipe(samples, tpl);
+    case 'circle': return scoreCircle(samples, tpl);
+    case 'shake': return scoreShake(samples, tpl);
+    case 'depth': return scoreDepth(samples, tpl);
+  }
+};
+
+/**
+ * Per-hand motion recognizer
+ */
+export class MotionRecognizer {
+  private history: MotionSample[] = [];
+  private maxWindow: number;
+  private cooldownUntil = 0;
+
+  constructor(
+    private templates: MotionTemplate[] = DEFAULT_MOTION_TEMPLATES,
+    private cooldownMs: number = 500  // No new motion right after one was recognized
+  ) {
+    this.maxWindow = Math.max(...templates.map(t => t.windowMs));
+  }
+
+  /**
+   * Feed one frame. Returns the motion recognized on this frame, if any.
+   */
+  update(metrics: ContinuousHandMetrics, time: number, handedness: Handedness): MotionEvent[] {
+    if (!metrics.isPresent) {
+      this.history = [];
+      return [];
+    }
+
+    this.history.push({
+      t: time,
+      position: { ...metrics.position },
+      velocity: { ...metrics.velocity },
+      depth: metrics.depth,
+    });
+    while (this.history.length > 0 && time - this.history[0].t > this.maxWindow) {
+      this.history.shift();
+    }
+
+    if (time < this.cooldownUntil || this.history.length < 4) return [];
+
+    let best: { template: MotionTemplate; confidence: number } | null = null;
+    for (const template of this.templates) {
+      const samples = this.history.filter(s => time - s.t <= template.windowMs);
+      if (samples.length < 4) continue;
+      const confidence = scoreTemplate(samples, template);
+      if (confidence >= template.minConfidence && (!best || confidence > best.confidence)) {
+        best = { template, confidence };
+      }
+    }
+
+    if (!best) return [];
+
+    // Start over so the same movement is not recognized twice
+    this.history = [];
+    this.cooldownUntil = time + this.cooldownMs;
+
+    return [{
+      type: 'motion',
+      motion: best.template.motion,
+      handedness,
+      confidence: best.confidence,
+      timestamp: time,
+      position: { ...metrics.position },
+    }];
+  }
+
+  setTemplates(templates: MotionTemplate[]) {
+    this.templates = templates;
+    this.maxWindow = Math.max(...templates.map(t => t.windowMs));
+    this.history = [];
+  }
+
+  reset() {
+    this.history = [];
+    this.cooldownUntil = 0;
+  }
+}
@@ -0,0 +1,71 @@
+import { ControlState, ControllerInputSource, createNeutralControls } from './controllerSource';
+
+/**
+ * Mouse simulation as an input source
+ *
+ * Mouse controls:
+ * - Position = mouse position
+ * - Left click = pinch (close fingers)
+ * - Right click = grip (curl fingers)
+ * - Wheel = finger spread
+ */
+export class MouseInputSource extends ControllerInputSource {
+  private mousePos = { x: 0, y: 0 };
+  private mouseButtons = { left: false, right: false };
+  private spread = 0;
+
+  protected attach() {
+    window.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('mousedown', this.handleMouseDown);
+    window.addEventListener('mouseup', this.handleMouseUp);
+    window.addEventListener('wheel', this.handleWheel);
+    window.addEventListener('contextmenu', this.handleContextMenu);
+  }
+
+  protected detach() {
+    window.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('mousedown', this.handleMouseDown);
+    window.removeEventListener('mouseup', this.handleMouseUp);
+    window.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('contextmenu', this.handleContextMenu);
+    this.mouseButtons = { left: false, right: false };
+    this.spread = 0;
+  }
+
+  protected readControls(): ControlState {
+    return {
+      ...createNeutralControls(),
+      x: this.mousePos.x,
+      y: this.mousePos.y,
+      pinch: this.mouseButtons.left ? 1 : 0,
+      grip: this.mouseButtons.right ? 1 : 0,
+      spread: this.spread,
+    };
+  }
+
+  private handleMouseMove = (e: MouseEvent) => {
+    this.mousePos = {
+      x: (e.clientX / window.innerWidth - 0.5) * 2,
+      y: -(e.clientY / window.innerHeight - 0.5) * 2,
+    };
+  };
+
+  private handleMouseDown = (e: MouseEvent) => {
+    if (e.button === 0) this.mouseButtons.left = true;
+    if (e.button === 2) this.mouseButtons.right = true;
+  };
+
+  private handleMouseUp = (e: MouseEvent) => {
+    if (e.button === 0) this.mouseButtons.left = false;
+    if (e.button === 2) this.mouseButtons.right = false;
+  };
+
+  // Scroll up spreads the fingers, scroll down closes them
+  private handleWheel = (e: WheelEvent) => {
+    this.spread = Math.max(0, Math.min(1, this.spread - e.deltaY * 0.001));
+  };
+
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+  };
+}
@@ -0,0 +1,213 @@
+import {
+  HandMetricsExtractor,
+  ContinuousHandMetrics,
+  Handedness,
+  MetricFilterConfig,
+  MultiHandMetrics,
+  TrackedHand,
+  computeInterHandMetrics,
+  createEmptyInterHandMetrics,
+} from './handMetrics';
+import { RawHandDetection } from './inputSource';
+import { Vector3 } from '../types';
+import { GestureEvent, GestureTracker, createIdleGesture } from './gestureTracker';
+import { MotionEvent, MotionRecognizer, MotionTemplate, DEFAULT_MOTION_TEMPLATES } from './motionRecognizer';
+import { CalibrationStore, calibrationStore } from './calibration';
+import { TrackingSettingsStore, trackingSettings } from './trackingSettings';
+import {
+  CustomPoseEvent,
+  CustomPoseTracker,
+  PoseClassifier,
+  canonicalizeLandmarks,
+  poseClassifier,
+} from './poseClassifier';
+
+export interface MultiHandProcessorOptions {
+  motionTemplates?: MotionTemplate[];
+  classifier?: PoseClassifier;
+  calibration?: Pick<CalibrationStore, 'getActive'>;
+  settings?: Pick<TrackingSettingsStore, 'get'>;
+  // Landmarks are in camera view and follow the mirror setting. Synthetic
+  // sources already produce them in screen space and opt out.
+  mirrorable?: boolean;
+}
+
+// Flip image x (landmarks are 0-1)
+export const mirrorLandmarks = (landmarks: Vector3[]): Vector3[] =>
+  landmarks.map(l => ({ x: 1 - l.x, y: l.y, z: l.z }));
+
+/**
+ * Turns raw per-hand landmark detections into a `MultiHandMetrics` frame.
+ *
+ * Shared by every landmark-based source (camera, replay...) so they all go
+ * through exactly the same extraction path.
+ */
+export class MultiHandProcessor {
+  // One extractor per hand so smoothing and energy never bleed between hands
+  private extractors: Record<Handedness, HandMetricsExtractor> = {
+    Left: new HandMetricsExtractor('Left'),
+    Right: new HandMetricsExtractor('Right'),
+  };
+  private gestureTrackers: Record<Handedness, GestureTracker> = {
+    Left: new GestureTracker(),
+    Right: new GestureTracker(),
+  };
+  private motionRecognizers: Record<Handedness, MotionRecognizer>;
+  private poseTrackers: Record<Handedness, CustomPoseTracker>;
+  private primaryHand: Handedness | null = null;
+  private time = 0;  // Source time (ms), advanced by deltaTime
+  private calibration: Pick<CalibrationStore, 'getActive'>;
+  private settings: Pick<TrackingSettingsStore, 'get'>;
+  private mirrorable: boolean;
+  private filters: Partial<MetricFilterConfig> | null = null;  // Overrides last seen in the settings
+  private filtersKey = '';
+
+  constructor({
+    motionTemplates = DEFAULT_MOTION_TEMPLATES,
+    classifier = poseClassifier,
+    calibration = calibrationStore,
+    settings = trackingSettings,
+    mirrorable = true,
+  }: MultiHandProcessorOptions = {}) {
+    this.calibration = calibration;
+    this.settings = settings;
+    this.mirrorable = mirrorable;
+    this.motionRecognizers = {
+      Left: new MotionRecognizer(motionTemplates),
+      Right: new MotionRecognizer(motionTemplates),
+    };
+    this.poseTrackers = {
+      Left: new CustomPoseTracker(classifier),
+      Right: new CustomPoseTracker(classifier),
+    };
+  }
+
+  /**
+   * `captureTime` is the performance.now() time the frame was captured, when
+   * the source knows it - it drives latency compensation.
+   */
+  process(detections: RawHandDetection[], deltaTime: number = 0.016, captureTime?: number): MultiHandMetrics {
+    this.time += deltaTime * 1000;
+
+    // Follow the active calibration profile and tracking settings
+    const profile = this.calibration.getActive();
+    const { predictionAmount, gracePeriod, filters, mirror: mirrorSetting } = this.settings.get();
+    // Camera-view landmarks are flipped here when mirroring; synthetic ones
+    // already arrive mirrored. Either way, metrics must know which view it is.
+    const flip = this.mirrorable && mirrorSetting;
+    const mirrored = this.mirrorable ? mirrorSetting : true;
+    (Object.values(this.extractors) as HandMetricsExtractor[]).forEach((extractor) => {
+      if (extractor.getCalibration() !== profile) extractor.setCalibration(profile);
+      extractor.setPredictionAmount(predictionAmount);
+      extractor.setGracePeriod(gracePeriod);
+      extractor.setMirrored(mirrored);
+    });
+    this.applyFilters(filters);
+
+    const byHand: Partial<Record<Handedness, RawHandDetection>> = {};
+    detections.forEach(d => {
+      byHand[d.handedness] = flip ? { ...d, landmarks: mirrorLandmarks(d.landmarks) } : d;
+    });
+
+    const hands: TrackedHand[] = [];
+    const absent: Partial<Record<Handedness, ContinuousHandMetrics>> = {};
+    const gestureEvents: GestureEvent[] = [];
+    const motionEvents: MotionEvent[] = [];
+    const customPoseEvents: CustomPoseEvent[] = [];
+    (Object.keys(this.extractors) as Handedness[]).forEach((handedness) => {
+      const detection = byHand[handedness];
+      const metrics = this.extractors[handedness].extract(
+        detection?.landmarks ?? null,
+        deltaTime,
+        captureTime,
+        detection?.score
+      );
+
+      const tracker = this.gestureTrackers[handedness];
+      gestureEvents.push(...tracker.update(
+        detection?.landmarks ?? null,
+        this.time,
+        handedness,
+        metrics.position,
+        metrics.pointDirection
+      ));
+      motionEvents.push(...this.motionRecognizers[handedness].update(metrics, this.time, handedness));
+
+      // User-trained poses run next to the built-in gestures. They see every
+      // hand as a right hand, so a pose trained with one hand works with both.
+      const poseTracker = this.poseTrackers[handedness];
+      const poseLandmarks = detection ? canonicalizeLandmarks(detection.landmarks, handedness, mirrored) : null;
+      customPoseEvents.push(...poseTracker.update(
+        poseLandmarks,
+        this.time,
+        handedness,
+        metrics.position
+      ));
+
+      // A hand in its dropout grace period still counts as present
+      if (metrics.isPresent) {
+        hands.push({
+          handedness,
+          score: detection?.score ?? 0,
+          metrics,
+          gesture: tracker.getActive(),
+          customPose: poseTracker.getActive(),
+        });
+      } else {
+        absent[handedness] = metrics;
+      }
+    });
+
+    hands.sort((a, b) => a.metrics.position.x - b.metrics.position.x);
+
+    // Keep the primary hand stable while it stays in view
+    if (!this.primaryHand || !hands.some(h => h.handedness === this.primaryHand)) {
+      this.primaryHand = hands[0]?.handedness ?? null;
+    }
+    const primary = hands.find(h => h.handedness === this.primaryHand)?.metrics
+      ?? absent.Right ?? absent.Left!;
+
+    return {
+      primary,
+      hands,
+      interHand: hands.length === 2
+        ? computeInterHandMetrics(hands[0].metrics, hands[1].metrics)
+        : createEmptyInterHandMetrics(),
+      gesture: this.primaryHand
+        ? this.gestureTrackers[this.primaryHand].getActive()
+        : createIdleGesture(),
+      gestureEvents,
+      motionEvents,
+      customPose: this.primaryHand ? this.poseTrackers[this.primaryHand].getActive() : null,
+      customPoseEvents,
+    };
+  }
+
+  addEnergy(handedness: Handedness, amount: number) {
+    this.extractors[handedness].addEnergy(amount);
+  }
+
+  reset() {
+    this.extractors.Left.reset();
+    this.extractors.Right.reset();
+    this.gestureTrackers.Left.reset();
+    this.gestureTrackers.Right.reset();
+    this.motionRecognizers.Left.reset();
+    this.motionRecognizers.Right.reset();
+    this.poseTrackers.Left.reset();
+    this.poseTrackers.Right.reset();
+    this.primaryHand = null;
+  }
+
+  // New filters start from scratch, so only swap them when a spec changed -
+  // every settings update hands over a fresh copy of the same overrides
+  private applyFilters(filters: Partial<MetricFilterConfig>) {
+    if (filters === this.filters) return;
+    this.filters = filters;
+    const key = JSON.stringify(filters);
+    if (key === this.filtersKey) return;
+    this.filtersKey = key;
+    this.extractors.Left.setFilters(filters);
+    this.extractors.Right.setFilters(filters);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * OSC Encoding
+ *
+ * Minimal OSC 1.0 encoder (int32, float32 and string arguments, bundles)
+ * plus the address mapping for metrics output frames. Bundles are sent as
+ * binary WebSocket messages, the way OSC-over-WebSocket bridges expect.
+ *
+ * Addresses mirror the JSON field names:
+ *   /hand/{id}/present i          0 or 1, sent for both hands every frame
+ *   /hand/{id}/{field} f...       e.g. /hand/0/pinch f, /hand/1/position fff
+ *   /hand/{id}/curls/{finger} f
+ *   /hand/{id}/gesture s f        name, confidence
+ *   /hand/{id}/pose s f           name ('' when none), confidence
+ *   /interHand/present i, /interHand/{field} f...
+ *   /gestureStart i s f, /gestureEnd i s f, /motion i s f,
+ *   /poseStart i s s f, /poseEnd i s s f    (hand id first)
+ */
+
+import { OutputEvent, OutputFrame, OutputHand, OutputHandId } from './outputSchema';
+
+export type OscArgument =
+  | { type: 'i'; value: number }
+  | { type: 'f'; value: number }
+  | { type: 's'; value: string };
+
+export interface OscMessage {
+  address: string;
+  args: OscArgument[];
+}
+
+const int = (value: number): OscArgument => ({ type: 'i', value });
+const float = (value: number): OscArgument => ({ type: 'f', value });
+const str = (value: string): OscArgument => ({ type: 's', value });
+const floats = (values: number[]) => values.map(float);
+
+const encoder = new TextEncoder();
+
+// OSC strings are null-terminated and padded to a multiple of 4 bytes
+const encodeString = (value: string): Uint8Array => {
+  const bytes = encoder.encode(value);
+  const padded = new Uint8Array((bytes.length + 4) & ~3);
+  padded.set(bytes);
+  return padded;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach((p) => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+export const encodeMessage = ({ address, args }: OscMessage): Uint8Array => {
+  const parts = [encodeString(address), encodeString(',' + args.map(a => a.type).join(''))];
+
+  args.forEach((arg) => {
+    if (arg.type === 's') {
+      parts.push(encodeString(arg.value));
+      return;
+    }
+    const view = new DataView(new ArrayBuffer(4));
+    if (arg.type === 'i') view.setInt32(0, arg.value | 0);
+    else view.setFloat32(0, arg.value);
+    parts.push(new Uint8Array(view.buffer));
+  });
+
+  return concat(parts);
+};
+
+// Time tag 1 = "immediately"
+const IMMEDIATELY = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 1]);
+
+export const encodeBundle = (messages: OscMessage[]): Uint8Array => {
+  const parts = [encodeString('#bundle'), IMMEDIATELY];
+  messages.forEach((message) => {
+    const bytes = encodeMessage(message);
+    const size = new DataView(new ArrayBuffer(4));
+    size.setInt32(0, bytes.length);
+    parts.push(new Uint8Array(size.buffer), bytes);
+  });
+  return concat(parts);
+};
+
+const handMessages = (hand: OutputHand): OscMessage[] => {
+  const at = (field: string, ...args: OscArgument[]): OscMessage => ({ address: `/hand/${hand.id}/${field}`, args });
+  const messages = [
+    at('present', int(1)),
+    at('primary', int(hand.primary ? 1 : 0)),
+    at('state', str(hand.state)),
+    at('confidence', float(hand.confidence)),
+    at('position', ...floats(hand.position)),
+    at('velocity', ...floats(hand.velocity)),
+    at('speed', float(hand.speed)),
+    at('depth', float(hand.depth)),
+    at('openness', float(hand.openness)),
+    at('pinch', float(hand.pinch)),
+    at('pinchPosition', ...floats(hand.pinchPosition)),
+    at('spread', float(hand.spread)),
+    at('palmNormal', ...floats(hand.palmNormal)),
+    at('palmFacing', float(hand.palmFacing)),
+    at('palmTilt', float(hand.palmTilt)),
+    ...Object.entries(hand.curls).map(([finger, curl]) => at(`curls/${finger}`, float(curl))),
+    at('point', float(hand.point)),
+    at('pointDirection', ...floats(hand.pointDirection)),
+    at('grip', float(hand.grip)),
+    at('energy', float(hand.energy)),
+    at('tension', float(hand.tension)),
+    at('expressiveness', float(hand.expressiveness)),
+    at('gesture', str(hand.gesture.name), float(hand.gesture.confidence)),
+    at('pose', str(hand.pose?.name ?? ''), float(hand.pose?.confidence ?? 0)),
+  ];
+  if (hand.landmarks) messages.push(at('landmarks', ...floats(hand.landmarks.flat())));
+  return messages;
+};
+
+const eventMessage = (event: OutputEvent): OscMessage => {
+  const hand = int(event.hand);
+  switch (event.type) {
+    case 'gestureStart':
+      return { address: '/gestureStart', args: [hand, str(event.gesture), float(event.confidence)] };
+    case 'gestureEnd':
+      return { address: '/gestureEnd', args: [hand, str(event.gesture), float(event.duration)] };
+    case 'motion':
+      return { address: '/motion', args: [hand, str(event.motion), float(event.confidence)] };
+    case 'poseStart':
+      return { address: '/poseStart', args: [hand, str(event.pose), str(event.name), float(event.confidence)] };
+    case 'poseEnd':
+      return { address: '/poseEnd', args: [hand, str(event.pose), str(event.name), float(event.duration)] };
+  }
+};
+
+/**
+ * One output frame as OSC messages - absent hands still get `present 0`
+ * so receivers can tell a lost hand from a silent stream
+ */
+export const frameToOsc = (frame: OutputFrame): OscMessage[] => {
+  const messages: OscMessage[] = [{ address: '/frame', args: [int(frame.seq), int(frame.time)] }];
+
+  ([0, 1] as OutputHandId[]).forEach((id) => {
+    const hand = frame.hands.find(h => h.id === id);
+    if (hand) messages.push(...handMessages(hand));
+    else messages.push({ address: `/hand/${id}/present`, args: [int(0)] });
+  });
+
+  const inter = frame.interHand;
+  messages.push({ address: '/interHand/present', args: [int(inter ? 1 : 0)] });
+  if (inter) {
+    messages.push(
+      { address: '/interHand/distance', args: [float(inter.distance)] },
+      { address: '/interHand/relativeRotation', args: [float(inter.relativeRotation)] },
+      { address: '/interHand/axisAngle', args: [float(inter.axisAngle)] },
+      { address: '/interHand/midpoint', args: floats(inter.midpoint) },
+    );
+  }
+
+  messages.push(...frame.events.map(eventMessage));
+  return messages;
+};
@@ -0,0 +1,174 @@
+/**
+ * Metrics Output Schema
+ *
+ * The JSON shape `metricsOutput` streams to external tools. It is written
+ * out field by field instead of dumping `ContinuousHandMetrics`, so renaming
+ * an internal metric never breaks a patch built against this format. Bump
+ * `OUTPUT_FORMAT_VERSION` when a field changes meaning or goes away; new
+ * fields can be added without a bump.
+ */
+
+import { ContinuousHandMetrics, Handedness, MultiHandMetrics, TrackedHand } from './handMetrics';
+import { GestureEvent } from './gestureTracker';
+import { MotionEvent } from './motionRecognizer';
+import { CustomPoseEvent } from './poseClassifier';
+import { Vector3, Vector3Tuple } from '../types';
+
+export const OUTPUT_FORMAT = 'etherial-hand-metrics';
+export const OUTPUT_FORMAT_VERSION = 1;
+
+// Hands keep their id whatever else is tracked: 0 = left, 1 = right (physical)
+export type OutputHandId = 0 | 1;
+
+export const handId = (handedness: Handedness): OutputHandId => (handedness === 'Left' ? 0 : 1);
+
+export interface OutputHand {
+  id: OutputHandId;
+  handedness: 'left' | 'right';
+  primary: boolean;          // Drives the single-hand effects
+  state: 'tracking' | 'predicting';
+  confidence: number;        // 0-1
+  position: Vector3Tuple;    // -1 to 1, y up
+  velocity: Vector3Tuple;
+  speed: number;             // 0-1
+  depth: number;             // -1 = close, 1 = far
+  openness: number;          // 0-1
+  pinch: number;             // 0-1
+  pinchPosition: Vector3Tuple;
+  spread: number;            // 0-1
+  palmNormal: Vector3Tuple;
+  palmFacing: number;        // 1 = facing the camera, -1 = away
+  palmTilt: number;          // -1 to 1
+  curls: { thumb: number; index: number; middle: number; ring: number; pinky: number };
+  point: number;             // 0-1
+  pointDirection: Vector3Tuple;
+  grip: number;              // 0-1
+  energy: number;            // 0-1
+  tension: number;           // 0-1
+  expressiveness: number;    // 0-1
+  gesture: { name: string; confidence: number };   // name 'none' when idle
+  pose: { id: string; name: string; confidence: number } | null;  // User-trained pose
+  landmarks?: Vector3Tuple[];  // 21 x [x, y, z] in screen space, only when enabled
+}
+
+export interface OutputInterHand {
+  distance: number;          // Normalized units, 0 to ~2.8
+  relativeRotation: number;  // Radians
+  axisAngle: number;         // Radians, 0 = horizontal
+  midpoint: Vector3Tuple;
+}
+
+export type OutputEvent =
+  | { type: 'gestureStart'; hand: OutputHandId; gesture: string; confidence: number; time: number }
+  | { type: 'gestureEnd'; hand: OutputHandId; gesture: string; duration: number; time: number }
+  | { type: 'motion'; hand: OutputHandId; motion: string; confidence: number; time: number }
+  | { type: 'poseStart'; hand: OutputHandId; pose: string; name: string; confidence: number; time: number }
+  | { type: 'poseEnd'; hand: OutputHandId; pose: string; name: string; duration: number; time: number };
+
+export interface OutputFrame {
+  format: typeof OUTPUT_FORMAT;
+  version: typeof OUTPUT_FORMAT_VERSION;
+  seq: number;               // Increments per message - gaps mean dropped frames
+  time: number;              // Milliseconds since the stream started
+  hands: OutputHand[];       // Tracked hands only, left hand first
+  interHand: OutputInterHand | null;  // Only while both hands are tracked
+  events: OutputEvent[];     // Everything that happened since the previous message
+}
+
+// Rounded so messages stay small - nothing downstream needs more precision
+const num = (v: number) => Math.round(v * 10000) / 10000;
+const vec = (v: Vector3): Vector3Tuple => [num(v.x), num(v.y), num(v.z)];
+
+const serializeHand = (hand: TrackedHand, primary: boolean, landmarks: boolean): OutputHand => {
+  const m: ContinuousHandMetrics = hand.metrics;
+  const out: OutputHand = {
+    id: handId(hand.handedness),
+    handedness: hand.handedness === 'Left' ? 'left' : 'right',
+    primary,
+    state: m.trackingState === 'predicting' ? 'predicting' : 'tracking',
+    confidence: num(m.confidence),
+    position: vec(m.position),
+    velocity: vec(m.velocity),
+    speed: num(m.speed),
+    depth: num(m.depth),
+    openness: num(m.openness),
+    pinch: num(m.pinchStrength),
+    pinchPosition: vec(m.pinchPosition),
+    spread: num(m.fingerSpread),
+    palmNormal: vec(m.palmNormal),
+    palmFacing: num(m.palmFacingCamera),
+    palmTilt: num(m.palmTilt),
+    curls: {
+      thumb: num(m.thumbCurl),
+      index: num(m.indexCurl),
+      middle: num(m.middleCurl),
+      ring: num(m.ringCurl),
+      pinky: num(m.pinkyCurl),
+    },
+    point: num(m.pointStrength),
+    pointDirection: vec(m.pointDirection),
+    grip: num(m.gripStrength),
+    energy: num(m.energy),
+    tension: num(m.tension),
+    expressiveness: num(m.expressiveness),
+    gesture: { name: hand.gesture.gesture, confidence: num(hand.gesture.confidence) },
+    pose: hand.customPose
+      ? { id: hand.customPose.poseId, name: hand.customPose.name, confidence: num(hand.customPose.confidence) }
+      : null,
+  };
+  if (landmarks) out.landmarks = m.landmarks.map(vec);
+  return out;
+};
+
+/**
+ * Serialize one metrics frame. `events` are collected by the caller since
+ * the previous message, so none get lost between output ticks.
+ */
+export const serializeFrame = (
+  frame: MultiHandMetrics,
+  events: OutputEvent[],
+  seq: number,
+  time: number,
+  landmarks = false
+): OutputFrame => {
+  const primary = frame.primary.isPresent ? frame.primary.handedness : null;
+  const hands = frame.hands
+    .filter(hand => hand.metrics.isPresent)
+    .sort((a, b) => handId(a.handedness) - handId(b.handedness))
+    .map(hand => serializeHand(hand, hand.handedness === primary, landmarks));
+
+  return {
+    format: OUTPUT_FORMAT,
+    version: OUTPUT_FORMAT_VERSION,
+    seq,
+    time: Math.round(time),
+    hands,
+    interHand: frame.interHand.isPresent
+      ? {
+          distance: num(frame.interHand.distance),
+          relativeRotation: num(frame.interHand.relativeRotation),
+          axisAngle: num(frame.interHand.axisAngle),
+          midpoint: vec(frame.interHand.midpoint),
+        }
+      : null,
+    events,
+  };
+};
+
+/**
+ * Events of one metrics frame, stamped with stream time
+ */
+export const serializeEvents = (frame: MultiHandMetrics, time: number): OutputEvent[] => {
+  const t = Math.round(time);
+  const gestures = frame.gestureEvents.map((e: GestureEvent): OutputEvent =>
+    e.type === 'gestureStart'
+      ? { type: 'gestureStart', hand: handId(e.handedness), gesture: e.gesture, confidence: num(e.confidence), time: t }
+      : { type: 'gestureEnd', hand: handId(e.handedness), gesture: e.gesture, duration: Math.round(e.duration), time: t });
+  const motions = frame.motionEvents.map((e: MotionEvent): OutputEvent =>
+    ({ type: 'motion', hand: handId(e.handedness), motion: e.motion, confidence: num(e.confidence), time: t }));
+  const poses = frame.customPoseEvents.map((e: CustomPoseEvent): OutputEvent =>
+    e.type === 'customPoseStart'
+      ? { type: 'poseStart', hand: handId(e.handedness), pose: e.poseId, name: e.name, confidence: num(e.confidence), time: t }
+      : { type: 'poseEnd', hand: handId(e.handedness), pose: e.poseId, name: e.name, duration: Math.round(e.duration), time: t });
+  return [...gestures, ...motions, ...poses];
+};
@@ -0,0 +1,42 @@
+/**
+ * Metrics Output Settings
+ *
+ * Where and how `metricsOutput` streams hand data to external tools
+ * (TouchDesigner, Max, lighting desks...). Changes apply immediately.
+ */
+
+import { booleanOr, createSettingsStore, oneOf, stringOr } from './settingsStore';
+
+export type OutputProtocol = 'json' | 'osc';
+
+export const OUTPUT_RATES = [10, 20, 30, 60];  // Frames per second
+
+export interface OutputSettings {
+  enabled: boolean;
+  url: string;               // WebSocket endpoint
+  protocol: OutputProtocol;  // JSON text frames or binary OSC bundles
+  rate: number;              // Frames per second
+  landmarks: boolean;        // Include all 21 landmarks per hand (bigger messages)
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  enabled: false,
+  url: 'ws://localhost:9980',
+  protocol: 'json',
+  rate: 30,
+  landmarks: false,
+};
+
+const OUTPUT_PROTOCOLS: OutputProtocol[] = ['json', 'osc'];
+
+export const outputSettings = createSettingsStore<OutputSettings>(
+  'etherial.outputSettings',
+  DEFAULT_OUTPUT_SETTINGS,
+  (settings) => ({
+    enabled: booleanOr(settings.enabled, DEFAULT_OUTPUT_SETTINGS.enabled),
+    url: stringOr(settings.url, '') || DEFAULT_OUTPUT_SETTINGS.url,
+    protocol: oneOf(settings.protocol, OUTPUT_PROTOCOLS, DEFAULT_OUTPUT_SETTINGS.protocol),
+    rate: oneOf(settings.rate, OUTPUT_RATES, DEFAULT_OUTPUT_SETTINGS.rate),
+    landmarks: booleanOr(settings.landmarks, DEFAULT_OUTPUT_SETTINGS.landmarks),
+  })
+);
@@ -0,0 +1,333 @@
+/**
+ * Color Palettes
+ *
+ * Multi-stop gradients the particles are colored from. Each particle looks
+ * its color up along the gradient by a per-particle value chosen with
+ * `PaletteIndex` (see `POINTS_VERTEX_SHADER`). Every shape has its own
+ * palette - a built-in default until the user picks another. User palettes
+ * can be edited and shared as JSON; built-in ones are read-only.
+ */
+
+import { ParticleShape } from '../types';
+import { downloadJSON } from './download';
+
+export const PALETTE_LIBRARY_FORMAT = 'etherial-palettes';
+export const PALETTE_LIBRARY_VERSION = 1;
+const STORAGE_KEY = 'etherial.palettes';
+
+export const PALETTE_RAMP_SIZE = 256;  // Texels in the gradient texture
+export const MIN_STOPS = 2;
+export const MAX_STOPS = 8;
+
+/**
+ * What picks a particle's place on the gradient (start to end):
+ * - radius: center of the shape to its edge
+ * - velocity: still to fast
+ * - handDistance: at the hand to far from it (the end when no hand)
+ * - time: cycles back and forth, offset per particle
+ */
+export type PaletteIndex = 'radius' | 'velocity' | 'handDistance' | 'time';
+
+export const PALETTE_INDEXES: Array<{ id: PaletteIndex; label: string }> = [
+  { id: 'radius', label: 'Raio' },
+  { id: 'velocity', label: 'Velocidade' },
+  { id: 'handDistance', label: 'Mão' },
+  { id: 'time', label: 'Tempo' },
+];
+
+export interface PaletteStop {
+  position: number;          // 0-1 along the gradient
+  color: string;             // #rrggbb
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  stops: PaletteStop[];      // In editing order - sorted when sampled
+  builtin?: boolean;
+}
+
+export const BUILTIN_PALETTES: Palette[] = [
+  {
+    id: 'cyan',
+    name: 'Ciano',
+    builtin: true,
+    stops: [{ position: 0, color: '#b3ecff' }, { position: 1, color: '#4fc3f7' }],
+  },
+  {
+    id: 'ocean',
+    name: 'Oceano',
+    builtin: true,
+    stops: [{ position: 0, color: '#e0fbff' }, { position: 0.4, color: '#4fc3f7' }, { position: 1, color: '#0a3d91' }],
+  },
+  {
+    id: 'rose',
+    name: 'Rosa',
+    builtin: true,
+    stops: [{ position: 0, color: '#ffe3ec' }, { position: 0.5, color: '#ff5c8a' }, { position: 1, color: '#a3003d' }],
+  },
+  {
+    id: 'nebula',
+    name: 'Nebulosa',
+    builtin: true,
+    stops: [
+      { position: 0, color: '#fff1c1' },
+      { position: 0.25, color: '#ff4fd8' },
+      { position: 0.6, color: '#7b2cff' },
+      { position: 1, color: '#1e3cff' },
+    ],
+  },
+  {
+    id: 'aurora',
+    name: 'Aurora',
+    builtin: true,
+    stops: [{ position: 0, color: '#00ffa3' }, { position: 0.5, color: '#00c8ff' }, { position: 1, color: '#7b2cff' }],
+  },
+  {
+    id: 'ember',
+    name: 'Brasa',
+    builtin: true,
+    stops: [
+      { position: 0, color: '#fff3b0' },
+      { position: 0.35, color: '#ffb347' },
+      { position: 0.7, color: '#ff4e1a' },
+      { position: 1, color: '#6b0f1a' },
+    ],
+  },
+  {
+    id: 'spirit',
+    name: 'Espírito',
+    builtin: true,
+    stops: [{ position: 0, color: '#ffffff' }, { position: 0.5, color: '#c8b6ff' }, { position: 1, color: '#6a4cff' }],
+  },
+];
+
+export const SHAPE_PALETTES: Record<ParticleShape, string> = {
+  [ParticleShape.SPHERE]: 'ocean',
+  [ParticleShape.HEART]: 'rose',
+  [ParticleShape.GALAXY]: 'nebula',
+  [ParticleShape.FLOWER]: 'aurora',
+  [ParticleShape.ENTITY]: 'spirit',
+};
+
+export interface PaletteState {
+  palettes: Palette[];       // Built-in first, then the user's
+  byShape: Partial<Record<ParticleShape, string>>;  // Palette picked per shape
+  index: PaletteIndex;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const SHAPES = Object.values(ParticleShape);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const sortStops = (stops: PaletteStop[]): PaletteStop[] =>
+  [...stops].sort((a, b) => a.position - b.position);
+
+/**
+ * Color at `t` (0-1), as [r, g, b] 0-255. Stops are blended in sRGB, like
+ * CSS gradients, so the editor preview matches the particles.
+ */
+export const samplePalette = (palette: Palette, t: number): [number, number, number] => {
+  const stops = sortStops(palette.stops);
+  if (t <= stops[0].position) return hexToRgb(stops[0].color);
+  for (let i = 1; i < stops.length; i++) {
+    const b = stops[i];
+    if (t > b.position) continue;
+    const a = stops[i - 1];
+    const k = b.position > a.position ? (t - a.position) / (b.position - a.position) : 1;
+    const ca = hexToRgb(a.color);
+    const cb = hexToRgb(b.color);
+    return [ca[0] + (cb[0] - ca[0]) * k, ca[1] + (cb[1] - ca[1]) * k, ca[2] + (cb[2] - ca[2]) * k];
+  }
+  return hexToRgb(stops[stops.length - 1].color);
+};
+
+/**
+ * Fill an RGBA8 row of `PALETTE_RAMP_SIZE` texels with the gradient
+ */
+export const writePaletteRamp = (palette: Palette, data: Uint8Array) => {
+  for (let i = 0; i < PALETTE_RAMP_SIZE; i++) {
+    const [r, g, b] = samplePalette(palette, i / (PALETTE_RAMP_SIZE - 1));
+    data[i * 4] = Math.round(r);
+    data[i * 4 + 1] = Math.round(g);
+    data[i * 4 + 2] = Math.round(b);
+    data[i * 4 + 3] = 255;
+  }
+};
+
+export const paletteGradientCss = (palette: Palette): string =>
+  `linear-gradient(to right, ${sortStops(palette.stops).map(s => `${s.color} ${Math.round(s.position * 100)}%`).join(', ')})`;
+
+const newPaletteId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+type PaletteListener = (state: PaletteState) => void;
+
+export class PaletteLibrary {
+  private custom: Palette[] = [];
+  private byShape: Partial<Record<ParticleShape, string>> = {};
+  private index: PaletteIndex = 'radius';
+  private listeners = new Set<PaletteListener>();
+
+  getState(): PaletteState {
+    return { palettes: [...BUILTIN_PALETTES, ...this.custom], byShape: this.byShape, index: this.index };
+  }
+
+  getPalette(id: string): Palette | undefined {
+    return BUILTIN_PALETTES.find(p => p.id === id) ?? this.custom.find(p => p.id === id);
+  }
+
+  // The picked palette, or the shape's default
+  getShapePalette(shape: ParticleShape): Palette {
+    const picked = this.byShape[shape];
+    return (picked && this.getPalette(picked)) || this.getPalette(SHAPE_PALETTES[shape])!;
+  }
+
+  setShapePalette(shape: ParticleShape, id: string) {
+    this.byShape = { ...this.byShape, [shape]: id };
+    this.changed();
+  }
+
+  getIndex(): PaletteIndex {
+    return this.index;
+  }
+
+  setIndex(index: PaletteIndex) {
+    this.index = index;
+    this.changed();
+  }
+
+  /**
+   * Editable copy of a palette, added to the library
+   */
+  duplicatePalette(source: Palette): Palette {
+    const palette: Palette = {
+      id: newPaletteId(),
+      name: `${source.name} (cópia)`,
+      stops: source.stops.map(s => ({ ...s })),
+    };
+    this.custom = [...this.custom, palette];
+    this.changed();
+    return palette;
+  }
+
+  // Replace a user palette (built-ins cannot change)
+  updatePalette(id: string, changes: Partial<Pick<Palette, 'name' | 'stops'>>) {
+    this.custom = this.custom.map(p => p.id === id
+      ? { ...p, ...changes }
+      : p);
+    this.changed();
+  }
+
+  // Shapes that used it go back to their default
+  removePalette(id: string) {
+    this.custom = this.custom.filter(p => p.id !== id);
+    this.changed();
+  }
+
+  subscribe(listener: PaletteListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      this.custom = this.validate(Array.isArray(data.palettes) ? data.palettes : [], false);
+      this.byShape = this.validateByShape(data.byShape);
+      if (PALETTE_INDEXES.some(i => i.id === data.index)) this.index = data.index;
+    } catch (err) {
+      console.warn('Failed to load palettes:', err);
+    }
+  }
+
+  // User palettes only - the built-ins ship with the app
+  exportJSON(): string {
+    return JSON.stringify({
+      format: PALETTE_LIBRARY_FORMAT,
+      version: PALETTE_LIBRARY_VERSION,
+      palettes: this.custom,
+    });
+  }
+
+  /**
+   * Merge palettes from an exported file. Palettes with an existing id are
+   * replaced. Throws if the file is not a palette library.
+   */
+  importJSON(json: string) {
+    const imported = this.parse(json);
+    const ids = new Set(imported.map(p => p.id));
+    this.custom = [...this.custom.filter(p => !ids.has(p.id)), ...imported];
+    this.changed();
+  }
+
+  private parse(json: string): Palette[] {
+    const data = JSON.parse(json);
+    if (data?.format !== PALETTE_LIBRARY_FORMAT || !Array.isArray(data.palettes)) {
+      throw new Error('Arquivo não é uma biblioteca de paletas');
+    }
+    if (data.version !== PALETTE_LIBRARY_VERSION) {
+      throw new Error(`Versão de biblioteca não suportada: ${data.version}`);
+    }
+    return this.validate(data.palettes, true);
+  }
+
+  // Invalid palettes throw, or are dropped when not `strict` (the saved library)
+  private validate(palettes: Partial<Palette>[], strict: boolean): Palette[] {
+    const valid: Palette[] = [];
+    palettes.forEach((palette) => {
+      const stops = Array.isArray(palette?.stops) ? palette.stops : [];
+      const validStops = stops.length >= MIN_STOPS && stops.length <= MAX_STOPS && stops.every(s =>
+        typeof s?.color === 'string' && HEX_COLOR.test(s.color) &&
+        typeof s.position === 'number' && s.position >= 0 && s.position <= 1
+      );
+      if (!validStops || typeof palette?.name !== 'string') {
+        const error = new Error(`Paleta inválida: ${typeof palette?.name === 'string' ? palette.name : '(sem nome)'}`);
+        if (strict) throw error;
+        console.warn('Dropped palette:', error.message);
+        return;
+      }
+      // Built-in ids are reserved
+      const id = typeof palette.id === 'string' && !BUILTIN_PALETTES.some(p => p.id === palette.id)
+        ? palette.id
+        : newPaletteId();
+      valid.push({ id, name: palette.name, stops: stops.map(s => ({ position: s.position, color: s.color })) });
+    });
+    return valid;
+  }
+
+  // Picks for real shapes only - an unknown palette id falls back in getShapePalette
+  private validateByShape(byShape: unknown): Partial<Record<ParticleShape, string>> {
+    const valid: Partial<Record<ParticleShape, string>> = {};
+    if (typeof byShape !== 'object' || byShape === null) return valid;
+    Object.entries(byShape).forEach(([shape, id]) => {
+      if (SHAPES.includes(shape as ParticleShape) && typeof id === 'string') valid[shape as ParticleShape] = id;
+    });
+    return valid;
+  }
+
+  private changed() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        palettes: this.custom,
+        byShape: this.byShape,
+        index: this.index,
+      }));
+    } catch (err) {
+      console.warn('Failed to save palettes:', err);
+    }
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const paletteLibrary = new PaletteLibrary();
+if (typeof localStorage !== 'undefined') paletteLibrary.load();
+
+export const downloadPalettes = (library: PaletteLibrary = paletteLibrary) =>
+  downloadJSON(library.exportJSON(), 'etherial-palettes.json');
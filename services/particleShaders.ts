@@ -0,0 +1,438 @@
+/**
+ * Particle Shaders
+ *
+ * GLSL for the GPU particle simulation (`particleSimulation`) and for
+ * drawing its result. Particle state lives in float textures, one texel
+ * per particle: the velocity pass pulls each particle toward its
+ * metric-shaped target and adds one-shot effect impulses, the position pass
+ * integrates. Scene-space constants match the CPU-side parameter math in
+ * `ParticleSystem`.
+ */
+
+import { GestureType, MotionType } from '../types';
+import { PaletteIndex } from './palettes';
+
+export const MAX_EFFECTS = 8;         // One-shot effects applied at once
+export const MAX_ATTRACTORS = 2;      // One pinch attractor per hand
+
+// Effect ids shared by the TS side and the shaders - same id, same effect
+export const EFFECT_IDS = {
+  [GestureType.OPEN_PALM]: 1,
+  [GestureType.FIST]: 2,
+  [MotionType.PULL]: 2,
+  [GestureType.PINCH]: 3,
+  [GestureType.PEACE]: 4,
+  [GestureType.POINT]: 5,
+  [GestureType.ROCK]: 6,
+  [MotionType.SHAKE]: 6,
+  [GestureType.THUMBS_UP]: 7,
+  [GestureType.SPIDERMAN]: 8,
+  [MotionType.SWIPE_LEFT]: 9,
+  [MotionType.SWIPE_RIGHT]: 9,
+  [MotionType.SWIPE_UP]: 9,
+  [MotionType.SWIPE_DOWN]: 9,
+  [MotionType.CIRCLE_CW]: 10,
+  [MotionType.CIRCLE_CCW]: 11,
+  [MotionType.PUSH]: 12,
+  customPose: 13,
+} as const;
+
+// Palette index modes as the draw shader numbers them
+export const PALETTE_INDEX_IDS: Record<PaletteIndex, number> = {
+  radius: 0,
+  velocity: 1,
+  handDistance: 2,
+  time: 3,
+};
+
+const SHARED = /* glsl */ `
+  // Index of this particle, matching the order of the target/seed textures
+  float particleIndex() {
+    return floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+  }
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+`;
+
+/**
+ * Velocity pass - targets, continuous controls and one-shot impulses.
+ * `texturePosition` and `textureVelocity` come from GPUComputationRenderer.
+ */
+export const VELOCITY_SHADER = /* glsl */ `
+  #define MAX_EFFECTS ${MAX_EFFECTS}
+  #define MAX_ATTRACTORS ${MAX_ATTRACTORS}
+
+  uniform sampler2D uTargets;          // xyz = shape target, w = phase
+  uniform sampler2D uSeeds;            // xyz = per-particle random -1..1
+  uniform float uTime;
+  uniform float uStepScale;            // Step length in reference frames
+  uniform float uLerp;
+  uniform float uDamping;              // Already compounded over the step
+
+  uniform bool uHandPresent;
+  uniform vec3 uHand;
+  uniform vec3 uHandVelocity;
+  uniform vec3 uBeamOrigin;
+  uniform vec3 uPointDirection;
+  uniform float uExpansion;
+  uniform float uTurbulence;
+  uniform float uVortex;
+  uniform vec2 uDrift;
+  uniform float uOpenness;
+  uniform float uGrip;
+  uniform float uEnergy;
+  uniform float uTension;
+  uniform float uSpeed;
+  uniform float uPoint;
+  uniform vec4 uFingerCurls;           // index, middle, ring, pinky
+
+  uniform vec4 uAttractors[MAX_ATTRACTORS];  // xyz, w = pinch strength
+  uniform int uAttractorCount;
+
+  uniform bool uStretch;               // Two-hand stretch
+  uniform vec3 uStretchMid;
+  uniform vec2 uStretchAxis;
+  uniform float uStretchFactor;
+  uniform float uStretchTwist;         // Relative rotation between the hands
+  uniform float uShapeSpan;
+
+  uniform int uEffectCount;
+  uniform int uEffectIds[MAX_EFFECTS];
+  uniform vec3 uEffectOrigins[MAX_EFFECTS];
+  uniform vec3 uEffectDirections[MAX_EFFECTS];
+  uniform vec2 uEffectTimes[MAX_EFFECTS];    // x = age (s), y = envelope
+
+  ${SHARED}
+
+  vec3 oneShotImpulse(int id, vec3 origin, vec3 direction, float age, float env, vec3 p, float phase, vec2 uv) {
+    vec3 d = p - origin;
+    float dist = max(length(d), 0.001);
+    vec3 n = d / dist;
+
+    if (id == 1) {
+      // Supernova: radial blast away from the hand
+      return n * env * 0.35 / (1.0 + dist * 0.3);
+    }
+    if (id == 2) {
+      // Singularidade / Colapso: gravitational collapse into the fist
+      return -n * env * 0.25 * min(1.0, dist / 2.0);
+    }
+    if (id == 3) {
+      // Controle: expanding shockwave ring
+      float ringRadius = age * 8.0;
+      float force = exp(-pow(dist - ringRadius, 2.0) * 2.0) * env * 0.2;
+      return vec3(n.xy * force, sin(phase) * force);
+    }
+    if (id == 4) {
+      // Harmonia: twin counter-rotating vortices either side of the hand
+      float side = d.x < 0.0 ? -1.0 : 1.0;
+      float rx = d.x - side * 2.0;
+      float r = max(length(vec2(rx, d.y)), 0.001);
+      float force = env * 0.12 * exp(-r * 0.3) * side;
+      return vec3(-d.y / r * force, rx / r * force, 0.0);
+    }
+    if (id == 5) {
+      // Raio: burst along the pointing direction
+      float along = dot(d, direction);
+      if (along <= 0.0) return vec3(0.0);
+      float perp = length(d - direction * along);
+      if (perp >= 1.5) return vec3(0.0);
+      return direction * env * 0.4 * (1.0 - perp / 1.5);
+    }
+    if (id == 6) {
+      // Caos / Tremor: electric crackle
+      float roll = hash(uv + fract(uTime * 1.37));
+      if (roll >= 0.15 * env) return vec3(0.0);
+      vec3 kick = vec3(hash(uv + fract(uTime * 2.11)), hash(uv + fract(uTime * 3.07)), hash(uv + fract(uTime * 4.13)));
+      return (kick - 0.5) * 0.6 * env;
+    }
+    if (id == 7) {
+      // Ascensão: everything floats upward with a gentle sway
+      return vec3(sin(uTime * 2.0 + phase) * 0.01 * env, (0.04 + sin(phase) * 0.02) * env, 0.0);
+    }
+    if (id == 8) {
+      // Teia: particles snap onto radial web strands around the hand
+      float strandStep = 3.14159265 / 4.0;
+      float angle = floor(atan(d.y, d.x) / strandStep + 0.5) * strandStep;
+      float r = length(d.xy);
+      return vec3(
+        (origin.x + cos(angle) * r - p.x) * 0.08 * env,
+        (origin.y + sin(angle) * r - p.y) * 0.08 * env,
+        -d.z * 0.05 * env
+      );
+    }
+    if (id == 9) {
+      // Rajada: gust in the swipe direction
+      return vec3(direction.xy * env * 0.15 / (1.0 + dist * 0.15), 0.0);
+    }
+    if (id == 10 || id == 11) {
+      // Redemoinho: swirl around the hand in the drawn direction
+      float spin = id == 10 ? -1.0 : 1.0;
+      float r = max(length(d.xy), 0.001);
+      float force = env * 0.15 * exp(-r * 0.2) * spin;
+      return vec3(-d.y / r * force, d.x / r * force, 0.0);
+    }
+    if (id == 12) {
+      // Onda de Choque: expanding spherical shell, thrown toward the camera
+      float shellRadius = age * 10.0;
+      float force = exp(-pow(dist - shellRadius, 2.0) * 0.8) * env * 0.4;
+      return vec3(n.xy * force, (n.z + 0.5) * force);
+    }
+    if (id == 13) {
+      // Pulso: a ring expanding from the hand in the image plane
+      float r = max(length(d.xy), 0.001);
+      float band = exp(-pow(r - age * 6.0, 2.0) * 1.5);
+      return vec3(d.xy / r * band * env * 0.2, 0.0);
+    }
+    return vec3(0.0);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 p = texture2D(texturePosition, uv).xyz;
+    vec3 v = texture2D(textureVelocity, uv).xyz;
+    vec4 targetData = texture2D(uTargets, uv);
+    vec3 seed = texture2D(uSeeds, uv).xyz;
+    float phase = targetData.w;
+    float index = particleIndex();
+
+    vec3 t = targetData.xyz;
+    vec3 toHand = p - uHand;
+    float distToHand = length(toHand);
+
+    // === BREATHING ANIMATION ===
+    t += seed * sin(uTime * 0.6 + phase) * 0.08 * (1.0 - uTension);
+
+    if (uHandPresent) {
+      // === 1. EXPANSION/CONTRACTION ===
+      if (length(t) > 0.1) t *= uExpansion;
+
+      // === 1b. TWO-HAND STRETCH ===
+      if (uStretch) {
+        float along = t.x * uStretchAxis.x + t.y * uStretchAxis.y;
+        float across = -t.x * uStretchAxis.y + t.y * uStretchAxis.x;
+        float twist = uStretchTwist * (along / uShapeSpan);
+        float acrossT = across * cos(twist) - t.z * sin(twist);
+        float depthT = across * sin(twist) + t.z * cos(twist);
+        float stretched = along * uStretchFactor;
+        t = vec3(
+          uStretchMid.x + uStretchAxis.x * stretched - uStretchAxis.y * acrossT,
+          uStretchMid.y + uStretchAxis.y * stretched + uStretchAxis.x * acrossT,
+          uStretchMid.z + depthT
+        );
+      }
+
+      // === 2. PINCH ATTRACTION ===
+      // Particles are split between the attractors
+      int attractorIndex = int(mod(index, float(uAttractorCount)));
+      vec4 attractor = uAttractors[0];
+      for (int a = 1; a < MAX_ATTRACTORS; a++) {
+        if (a == attractorIndex) attractor = uAttractors[a];
+      }
+      if (attractor.w > 0.2) {
+        float distToPinch = length(p - attractor.xyz);
+        float attractMix = min(1.0, attractor.w * 3.0 / max(0.5, distToPinch) * 0.3);
+        t = mix(t, attractor.xyz, attractMix);
+
+        // Spiral when very close
+        if (distToPinch < 2.0 && attractor.w > 0.5) {
+          float spiralAngle = uTime * 4.0 + phase;
+          float spiralRadius = distToPinch * 0.3;
+          t.x += cos(spiralAngle) * spiralRadius * attractor.w;
+          t.z += sin(spiralAngle) * spiralRadius * attractor.w;
+        }
+      }
+
+      // === 3. VORTEX/ROTATION (GRIP) ===
+      if (uGrip > 0.1 && distToHand < 8.0) {
+        float proximity = 1.0 - distToHand / 8.0;
+        float angle = uTime * uVortex * proximity;
+        float cosA = cos(angle * 0.1);
+        float sinA = sin(angle * 0.1);
+        vec2 rel = t.xz - uHand.xz;
+        t.x = uHand.x + rel.x * cosA - rel.y * sinA;
+        t.z = uHand.z + rel.x * sinA + rel.y * cosA;
+        t.y += sin(angle + phase) * proximity * uGrip * 0.5;
+      }
+
+      // === 4. TURBULENCE (FINGER SPREAD) ===
+      if (uTurbulence > 0.1) {
+        float turbFreq = 3.0 + uEnergy * 5.0;
+        t += vec3(
+          sin(uTime * turbFreq + phase * 5.0),
+          cos(uTime * turbFreq * 1.1 + phase * 5.0),
+          sin(uTime * turbFreq * 0.9 + phase * 5.0)
+        ) * uTurbulence * seed;
+      }
+
+      // === 5. DIRECTIONAL FLOW (PALM TILT) ===
+      t.xy += uDrift;
+
+      // === 6. POINTING BEAM ===
+      if (uPoint > 0.3) {
+        float beamProximity = max(0.0, 1.0 - distToHand / 3.0);
+        if (beamProximity > 0.0) {
+          float beamProgress = mod(index, 100.0) / 100.0;
+          vec3 beam = uBeamOrigin + uPointDirection * 8.0 * uPoint * beamProgress;
+          t = mix(t, beam, beamProximity * uPoint * 0.5);
+          t.xy += seed.xy * beamProgress * 0.3;
+        }
+      }
+
+      // === 7. INDIVIDUAL FINGER EFFECTS ===
+      float fingerWave = (
+        uFingerCurls.x * sin(uTime * 2.0 + phase) +
+        uFingerCurls.y * sin(uTime * 2.5 + phase * 1.2) +
+        uFingerCurls.z * sin(uTime * 3.0 + phase * 1.4) +
+        uFingerCurls.w * sin(uTime * 3.5 + phase * 1.6)
+      ) * 0.1;
+      t.y += fingerWave * (1.0 - uOpenness);
+
+      // === 8. VELOCITY-BASED TRAILS ===
+      if (uSpeed > 0.1 && distToHand < 5.0) {
+        t.xy += uHandVelocity.xy * uSpeed * (1.0 - distToHand / 5.0) * 0.3;
+      }
+
+      // === 9. TENSION JITTER ===
+      if (uTension > 0.5) {
+        float jitter = (uTension - 0.5) * 2.0 * uEnergy;
+        vec3 noise = vec3(hash(uv + fract(uTime * 0.71)), hash(uv + fract(uTime * 0.53)), hash(uv + fract(uTime * 0.97)));
+        t += (noise - 0.5) * jitter * 0.3;
+      }
+    }
+
+    // === PHYSICS UPDATE ===
+    v += (t - p) * uLerp;
+
+    // Effect impulses are per reference frame - scale them to the step
+    vec3 impulse = vec3(0.0);
+    for (int e = 0; e < MAX_EFFECTS; e++) {
+      if (e >= uEffectCount) break;
+      impulse += oneShotImpulse(
+        uEffectIds[e], uEffectOrigins[e], uEffectDirections[e],
+        uEffectTimes[e].x, uEffectTimes[e].y, p, phase, uv + float(e) * 0.173
+      );
+    }
+    v += impulse * uStepScale;
+
+    gl_FragColor = vec4(v * uDamping, 1.0);
+  }
+`;
+
+/**
+ * Position pass - integrate the new velocity
+ */
+export const POSITION_SHADER = /* glsl */ `
+  uniform float uStepScale;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 p = texture2D(texturePosition, uv).xyz;
+    vec3 v = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(p + v * uStepScale, 1.0);
+  }
+`;
+
+/**
+ * Draw pass - each point looks up its particle in the simulation textures
+ * and works out its own color, size and alpha:
+ * - color: looked up in the palette by `uPaletteIndex`, flashed by active
+ *   effects, heated toward `uSpeedColor` by speed, drawn toward
+ *   `uPinchColor` near a pinch, brightened near the hand, dimmed with depth
+ * - size: breathes with the particle's phase, swells a little with speed
+ * - alpha: fades with depth
+ * Sized like `PointsMaterial` with size attenuation. Particles past
+ * `uVisible` shrink away over `uFadeBand`, so the count can change smoothly.
+ * Distances are in simulation space, like the physics.
+ */
+export const POINTS_VERTEX_SHADER = /* glsl */ `
+  #define MAX_ATTRACTORS ${MAX_ATTRACTORS}
+  #define RADIUS_RANGE 6.0             // Shape radius at the end of the palette
+
+  uniform sampler2D uPositions;
+  uniform sampler2D uVelocities;
+  uniform sampler2D uTargets;          // w = phase
+  uniform float uTime;
+  uniform float uSize;
+  uniform float uScale;                // Half the drawing buffer height
+  uniform float uVisible;              // Particles drawn (may be fractional)
+  uniform float uFadeBand;
+
+  uniform sampler2D uPalette;          // Gradient ramp, start to end
+  uniform int uPaletteIndex;           // PALETTE_INDEX_IDS
+  uniform vec3 uFlashColor;            // Active effects, already weighted...
+  uniform float uFlashKeep;            // ...over this much of the palette color
+  uniform vec3 uSpeedColor;
+  uniform vec3 uPinchColor;
+  uniform float uHandPresence;         // 0-1, eased so colors do not snap
+  uniform vec3 uHand;
+  uniform vec4 uAttractors[MAX_ATTRACTORS];  // xyz, w = pinch strength
+  uniform int uAttractorCount;
+
+  attribute vec2 reference;            // Texel of this particle
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    vec3 p = texture2D(uPositions, reference).xyz;
+    vec3 v = texture2D(uVelocities, reference).xyz;
+    float phase = texture2D(uTargets, reference).w;
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    float depth = -mvPosition.z;
+
+    // Velocities are per reference frame
+    float heat = smoothstep(0.03, 0.35, length(v));
+    float nearHand = (1.0 - smoothstep(0.0, 4.0, distance(p, uHand))) * uHandPresence;
+    float nearPinch = 0.0;
+    for (int a = 0; a < MAX_ATTRACTORS; a++) {
+      if (a >= uAttractorCount) break;
+      float strength = smoothstep(0.2, 0.8, uAttractors[a].w);
+      nearPinch = max(nearPinch, (1.0 - smoothstep(0.0, 2.5, distance(p, uAttractors[a].xyz))) * strength);
+    }
+    nearPinch *= uHandPresence;
+    float far = smoothstep(8.0, 18.0, depth);
+
+    float handDistance = clamp(distance(p, uHand) / 8.0, 0.0, 1.0);
+    float t;
+    if (uPaletteIndex == 1) t = heat;
+    else if (uPaletteIndex == 2) t = mix(1.0, handDistance, uHandPresence);
+    else if (uPaletteIndex == 3) t = abs(fract(uTime * 0.1 + phase / 6.2832) * 2.0 - 1.0);
+    else t = clamp(length(p) / RADIUS_RANGE, 0.0, 1.0);
+    vec3 color = texture2D(uPalette, vec2(t, 0.5)).rgb * uFlashKeep + uFlashColor;
+
+    // With the palette indexed by speed the gradient already shows it
+    if (uPaletteIndex != 1) color = mix(color, uSpeedColor, heat * 0.6);
+    color = mix(color, uPinchColor, nearPinch * 0.7);
+    color *= (1.0 + nearHand * 0.5) * (1.0 - far * 0.5);
+    vColor = color;
+    vAlpha = 1.0 - far * 0.6;
+
+    // Non-indexed points - the vertex id is the particle index
+    float fade = clamp((uVisible - float(gl_VertexID)) / uFadeBand, 0.0, 1.0);
+    float pulse = 1.0 + 0.25 * sin(uTime * 1.5 + phase);
+    gl_PointSize = uSize * fade * pulse * (1.0 + heat * 0.3) * (uScale / depth);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+/**
+ * Procedural glow - a gaussian core with a soft halo, cut off smoothly at
+ * the edge of the point
+ */
+export const POINTS_FRAGMENT_SHADER = /* glsl */ `
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5) * 2.0;
+    if (d > 1.0) discard;
+    float glow = exp(-d * d * 6.0) * (1.0 - smoothstep(0.7, 1.0, d));
+    gl_FragColor = vec4(vColor * glow, glow * vAlpha);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
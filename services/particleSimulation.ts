@@ -0,0 +1,180 @@
+/**
+ * GPU Particle Simulation
+ *
+ * Position and velocity of every particle live in float render targets
+ * (ping-ponged by three's GPUComputationRenderer), so the per-particle work
+ * runs in fragment shaders and nothing is uploaded per frame. The CPU only
+ * sets uniforms - see `VELOCITY_SHADER` for the ones it reads.
+ */
+
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { MAX_ATTRACTORS, MAX_EFFECTS, POSITION_SHADER, VELOCITY_SHADER } from './particleShaders';
+
+const INITIAL_SPREAD = 50;   // Particles start scattered over this cube
+
+const createDataTexture = (size: number, fill: (data: Float32Array, i4: number, i: number) => void) => {
+  const data = new Float32Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) fill(data, i * 4, i);
+  const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat, THREE.FloatType);
+  texture.needsUpdate = true;
+  return texture;
+};
+
+export class ParticleSimulation {
+  readonly count: number;
+  // Velocity pass uniforms, set by the caller every frame
+  readonly uniforms: { [name: string]: THREE.IUniform };
+
+  private gpu: GPUComputationRenderer;
+  private position: Variable;
+  private velocity: Variable;
+  private targets: THREE.DataTexture;
+  private seeds: THREE.DataTexture;
+  // Texel -> target index, shuffled so any leading run of particles covers the whole shape
+  private order: Uint32Array;
+
+  /**
+   * `size` x `size` particles. Throws if the GPU cannot run the simulation.
+   */
+  constructor(renderer: THREE.WebGLRenderer, readonly size: number) {
+    this.count = size * size;
+    this.order = new Uint32Array(this.count);
+    for (let i = 0; i < this.count; i++) this.order[i] = i;
+    for (let i = this.count - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [this.order[i], this.order[j]] = [this.order[j], this.order[i]];
+    }
+    this.gpu = new GPUComputationRenderer(size, size, renderer);
+    // Rendering to 32-bit float targets is optional in WebGL2 (mostly missing on mobile)
+    if (!renderer.extensions.has('EXT_color_buffer_float')) this.gpu.setDataType(THREE.HalfFloatType);
+
+    const initialPositions = this.gpu.createTexture();
+    const positionData = initialPositions.image.data as Float32Array;
+    for (let i = 0; i < positionData.length; i += 4) {
+      positionData[i] = (Math.random() - 0.5) * INITIAL_SPREAD;
+      positionData[i + 1] = (Math.random() - 0.5) * INITIAL_SPREAD;
+      positionData[i + 2] = (Math.random() - 0.5) * INITIAL_SPREAD;
+      positionData[i + 3] = 1;
+    }
+
+    this.position = this.gpu.addVariable('texturePosition', POSITION_SHADER, initialPositions);
+    this.velocity = this.gpu.addVariable('textureVelocity', VELOCITY_SHADER, this.gpu.createTexture());
+    this.gpu.setVariableDependencies(this.position, [this.position, this.velocity]);
+    this.gpu.setVariableDependencies(this.velocity, [this.position, this.velocity]);
+
+    // Targets start at the origin until a shape is set; w = phase
+    this.targets = createDataTexture(size, (data, i4) => {
+      data[i4 + 3] = Math.random() * Math.PI * 2;
+    });
+    this.seeds = createDataTexture(size, (data, i4) => {
+      data[i4] = (Math.random() - 0.5) * 2;
+      data[i4 + 1] = (Math.random() - 0.5) * 2;
+      data[i4 + 2] = (Math.random() - 0.5) * 2;
+    });
+
+    this.uniforms = this.velocity.material.uniforms;
+    Object.assign(this.uniforms, {
+      uTargets: { value: this.targets },
+      uSeeds: { value: this.seeds },
+      uTime: { value: 0 },
+      uStepScale: { value: 1 },
+      uLerp: { value: 0.03 },
+      uDamping: { value: 0.9 },
+      uHandPresent: { value: false },
+      uHand: { value: new THREE.Vector3() },
+      uHandVelocity: { value: new THREE.Vector3() },
+      uBeamOrigin: { value: new THREE.Vector3() },
+      uPointDirection: { value: new THREE.Vector3(0, -1, 0) },
+      uExpansion: { value: 1 },
+      uTurbulence: { value: 0 },
+      uVortex: { value: 0 },
+      uDrift: { value: new THREE.Vector2() },
+      uOpenness: { value: 0 },
+      uGrip: { value: 0 },
+      uEnergy: { value: 0 },
+      uTension: { value: 0 },
+      uSpeed: { value: 0 },
+      uPoint: { value: 0 },
+      uFingerCurls: { value: new THREE.Vector4() },
+      uAttractors: { value: Array.from({ length: MAX_ATTRACTORS }, () => new THREE.Vector4()) },
+      uAttractorCount: { value: 1 },
+      uStretch: { value: false },
+      uStretchMid: { value: new THREE.Vector3() },
+      uStretchAxis: { value: new THREE.Vector2(1, 0) },
+      uStretchFactor: { value: 1 },
+      uStretchTwist: { value: 0 },
+      uShapeSpan: { value: 1 },
+      uEffectCount: { value: 0 },
+      uEffectIds: { value: new Int32Array(MAX_EFFECTS) },
+      uEffectOrigins: { value: Array.from({ length: MAX_EFFECTS }, () => new THREE.Vector3()) },
+      uEffectDirections: { value: Array.from({ length: MAX_EFFECTS }, () => new THREE.Vector3()) },
+      uEffectTimes: { value: Array.from({ length: MAX_EFFECTS }, () => new THREE.Vector2()) },
+    });
+    this.position.material.uniforms.uStepScale = { value: 1 };
+
+    const error = this.gpu.init();
+    if (error) {
+      this.dispose();
+      throw new Error(`GPU particle simulation unavailable: ${error}`);
+    }
+  }
+
+  /**
+   * New shape targets, `count` x [x, y, z]. Phases are kept.
+   */
+  setTargets(positions: Float32Array) {
+    const data = this.targets.image.data as Float32Array;
+    for (let i = 0; i < this.count; i++) {
+      const j3 = this.order[i] * 3;
+      data[i * 4] = positions[j3];
+      data[i * 4 + 1] = positions[j3 + 1];
+      data[i * 4 + 2] = positions[j3 + 2];
+    }
+    this.targets.needsUpdate = true;
+  }
+
+  /**
+   * Simulate only the first `count` particles (rounded up to whole texture
+   * rows). The rest keep their state and resume where they were.
+   */
+  setActiveCount(count: number) {
+    const rows = Math.min(this.size, Math.max(1, Math.ceil(count / this.size)));
+    [this.position, this.velocity].forEach((variable) => {
+      variable.renderTargets.forEach((target) => {
+        target.scissor.set(0, 0, this.size, rows);
+        target.scissorTest = rows < this.size;
+      });
+    });
+  }
+
+  /**
+   * Advance one step of `stepScale` reference frames
+   */
+  step(stepScale: number) {
+    this.uniforms.uStepScale.value = stepScale;
+    this.position.material.uniforms.uStepScale.value = stepScale;
+    this.gpu.compute();
+  }
+
+  // Current positions (xyz per texel) for drawing
+  getPositionTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.position).texture;
+  }
+
+  // Current velocities (xyz per texel, per reference frame)
+  getVelocityTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.velocity).texture;
+  }
+
+  // Shape targets (xyz) and phases (w) per texel
+  getTargetTexture(): THREE.Texture {
+    return this.targets;
+  }
+
+  dispose() {
+    this.gpu.dispose();
+    this.targets.dispose();
+    this.seeds.dispose();
+  }
+}
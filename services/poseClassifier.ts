@@ -0,0 +1,393 @@
+/**
+ * Custom Pose Classifier
+ *
+ * Lets performers teach the system their own poses. A pose is a set of
+ * normalized landmark samples (wrist-relative, scale-invariant) recorded
+ * under a name; a k-nearest-neighbour classifier matches live frames
+ * against them, next to the built-in `GestureDetector`.
+ */
+
+import { HandLandmark, Vector3 } from '../types';
+import { Handedness, handChirality } from './handMetrics';
+import { downloadJSON } from './download';
+
+export const POSE_LIBRARY_FORMAT = 'etherial-custom-poses';
+export const POSE_LIBRARY_VERSION = 1;
+const STORAGE_KEY = 'etherial.customPoses';
+
+const POSE_COLORS = ['#FF6B6B', '#FFD93D', '#6BCB77', '#4D96FF', '#C77DFF', '#FF9F1C'];
+const SAMPLE_LENGTH = 20 * 3;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface CustomPose {
+  id: string;
+  name: string;
+  color: string;
+  samples: number[][];       // Normalized landmark vectors (20 x [x, y, z], wrist dropped)
+  createdAt: string;
+}
+
+export interface PoseMatch {
+  poseId: string;
+  name: string;
+  confidence: number;        // 0-1
+  distance: number;          // Mean distance to the winning neighbours
+}
+
+export interface CustomPoseState {
+  poseId: string;
+  name: string;
+  confidence: number;
+  since: number;             // Tracker time (ms) when it started
+}
+
+export interface CustomPoseStartEvent {
+  type: 'customPoseStart';
+  poseId: string;
+  name: string;
+  color: string;
+  handedness: Handedness;
+  confidence: number;
+  timestamp: number;
+  position: Vector3;         // Hand position when the pose started (z = depth)
+}
+
+export interface CustomPoseEndEvent {
+  type: 'customPoseEnd';
+  poseId: string;
+  name: string;
+  handedness: Handedness;
+  duration: number;
+  timestamp: number;
+}
+
+export type CustomPoseEvent = CustomPoseStartEvent | CustomPoseEndEvent;
+export type CustomPoseEventListener = (event: CustomPoseEvent) => void;
+
+/**
+ * Wrist-relative, scale-invariant landmark vector
+ */
+export const normalizeLandmarks = (landmarks: Vector3[]): number[] => {
+  const wrist = landmarks[HandLandmark.WRIST];
+  const middleMcp = landmarks[HandLandmark.MIDDLE_FINGER_MCP];
+  const size = Math.hypot(middleMcp.x - wrist.x, middleMcp.y - wrist.y, middleMcp.z - wrist.z) || 1;
+
+  const vector: number[] = [];
+  for (let i = 1; i < landmarks.length; i++) {
+    vector.push(
+      (landmarks[i].x - wrist.x) / size,
+      (landmarks[i].y - wrist.y) / size,
+      (landmarks[i].z - wrist.z) / size
+    );
+  }
+  return vector;
+};
+
+/**
+ * Present every hand as an un-mirrored right hand, so a pose trained with
+ * one hand is recognized on the other too
+ */
+export const canonicalizeLandmarks = (landmarks: Vector3[], handedness: Handedness, mirrored: boolean): Vector3[] =>
+  handChirality(handedness, mirrored) < 0
+    ? landmarks.map(l => ({ x: 1 - l.x, y: l.y, z: l.z }))
+    : landmarks;
+
+const newPoseId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const isValidSample = (sample: unknown): sample is number[] =>
+  Array.isArray(sample) && sample.length === SAMPLE_LENGTH && sample.every(v => typeof v === 'number' && Number.isFinite(v));
+
+// RMS distance per landmark, so thresholds do not depend on vector length
+const vectorDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / (a.length / 3));
+};
+
+type LibraryListener = (poses: CustomPose[]) => void;
+
+export class PoseClassifier {
+  private poses: CustomPose[] = [];
+  private listeners = new Set<LibraryListener>();
+
+  constructor(
+    private k: number = 5,
+    private maxDistance: number = 0.35  // Farther than this from every sample = no match
+  ) {}
+
+  classify(landmarks: Vector3[]): PoseMatch | null {
+    if (this.poses.length === 0 || landmarks.length < 21) return null;
+    const vector = normalizeLandmarks(landmarks);
+
+    // k nearest samples across all poses
+    const nearest: Array<{ pose: CustomPose; distance: number }> = [];
+    this.poses.forEach((pose) => {
+      pose.samples.forEach((sample) => {
+        const distance = vectorDistance(vector, sample);
+        if (nearest.length < this.k || distance < nearest[nearest.length - 1].distance) {
+          nearest.push({ pose, distance });
+          nearest.sort((a, b) => a.distance - b.distance);
+          if (nearest.length > this.k) nearest.pop();
+        }
+      });
+    });
+
+    if (nearest.length === 0 || nearest[0].distance > this.maxDistance) return null;
+
+    // Majority vote among the neighbours
+    const votes = new Map<CustomPose, number[]>();
+    nearest.forEach(({ pose, distance }) => {
+      votes.set(pose, [...(votes.get(pose) ?? []), distance]);
+    });
+    let winner = nearest[0].pose;
+    votes.forEach((distances, pose) => {
+      if (distances.length > votes.get(winner)!.length) winner = pose;
+    });
+
+    const distances = votes.get(winner)!;
+    const meanDistance = distances.reduce((a, b) => a + b, 0) / distances.length;
+    const confidence = (distances.length / nearest.length) * Math.max(0, 1 - meanDistance / this.maxDistance);
+
+    return { poseId: winner.id, name: winner.name, confidence, distance: meanDistance };
+  }
+
+  // === LIBRARY ===
+
+  getPoses(): CustomPose[] {
+    return this.poses;
+  }
+
+  getPose(id: string): CustomPose | undefined {
+    return this.poses.find(p => p.id === id);
+  }
+
+  addPose(name: string, samples: number[][]): CustomPose {
+    const pose: CustomPose = {
+      id: newPoseId(),
+      name,
+      color: POSE_COLORS[this.poses.length % POSE_COLORS.length],
+      samples,
+      createdAt: new Date().toISOString(),
+    };
+    this.poses = [...this.poses, pose];
+    this.changed();
+    return pose;
+  }
+
+  removePose(id: string) {
+    this.poses = this.poses.filter(p => p.id !== id);
+    this.changed();
+  }
+
+  subscribe(listener: LibraryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Follow a library kept elsewhere (the hand tracking worker's copy) - not saved
+  setPoses(poses: CustomPose[]) {
+    this.poses = poses;
+    this.listeners.forEach(listener => listener(this.poses));
+  }
+
+  load() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) this.poses = this.parse(stored, false);
+    } catch (err) {
+      console.warn('Failed to load custom poses:', err);
+    }
+  }
+
+  exportJSON(): string {
+    return JSON.stringify({
+      format: POSE_LIBRARY_FORMAT,
+      version: POSE_LIBRARY_VERSION,
+      poses: this.poses,
+    });
+  }
+
+  /**
+   * Merge poses from an exported file. Poses with an existing id are replaced.
+   * Throws if the file is not a pose library or any pose is invalid.
+   */
+  importJSON(json: string) {
+    const imported = this.parse(json);
+    const ids = new Set(imported.map(p => p.id));
+    this.poses = [...this.poses.filter(p => !ids.has(p.id)), ...imported];
+    this.changed();
+  }
+
+  // Invalid poses throw, or are dropped when not `strict` (the saved library)
+  private parse(json: string, strict = true): CustomPose[] {
+    const data = JSON.parse(json);
+    if (data?.format !== POSE_LIBRARY_FORMAT || !Array.isArray(data.poses)) {
+      throw new Error('Arquivo não é uma biblioteca de poses');
+    }
+    if (data.version !== POSE_LIBRARY_VERSION) {
+      throw new Error(`Versão de biblioteca não suportada: ${data.version}`);
+    }
+    return this.validate(data.poses, strict);
+  }
+
+  private validate(poses: Partial<CustomPose>[], strict: boolean): CustomPose[] {
+    const valid: CustomPose[] = [];
+    poses.forEach((pose, i) => {
+      const samples = Array.isArray(pose?.samples) ? pose.samples : [];
+      if (typeof pose?.name !== 'string' || samples.length === 0 || !samples.every(isValidSample)) {
+        const error = new Error(`Pose inválida: ${typeof pose?.name === 'string' ? pose.name : '(sem nome)'}`);
+        if (strict) throw error;
+        console.warn('Dropped custom pose:', error.message);
+        return;
+      }
+      valid.push({
+        id: typeof pose.id === 'string' ? pose.id : newPoseId(),
+        name: pose.name,
+        color: typeof pose.color === 'string' && HEX_COLOR.test(pose.color)
+          ? pose.color
+          : POSE_COLORS[i % POSE_COLORS.length],
+        samples: samples.map(sample => [...sample]),
+        createdAt: typeof pose.createdAt === 'string' ? pose.createdAt : new Date().toISOString(),
+      });
+    });
+    return valid;
+  }
+
+  private changed() {
+    try {
+      localStorage.setItem(STORAGE_KEY, this.exportJSON());
+    } catch (err) {
+      console.warn('Failed to save custom poses:', err);
+    }
+    this.listeners.forEach(listener => listener(this.poses));
+  }
+}
+
+// Shared library - every source matches against the same trained poses
+export const poseClassifier = new PoseClassifier();
+if (typeof localStorage !== 'undefined') poseClassifier.load();
+
+/**
+ * Collects normalized samples for a few seconds while a pose is held
+ */
+export class PoseRecorder {
+  private samples: number[][] = [];
+  private startTime: number | null = null;
+
+  constructor(private durationMs: number = 3000) {}
+
+  /**
+   * Add a raw (un-mirrored) frame. Returns true once enough time has been captured.
+   */
+  add(landmarks: Vector3[], handedness: Handedness, timestamp: number): boolean {
+    if (this.startTime === null) this.startTime = timestamp;
+    if (landmarks.length >= 21) {
+      this.samples.push(normalizeLandmarks(canonicalizeLandmarks(landmarks, handedness, false)));
+    }
+    return this.isComplete(timestamp);
+  }
+
+  isComplete(timestamp: number): boolean {
+    return this.startTime !== null && timestamp - this.startTime >= this.durationMs;
+  }
+
+  getProgress(timestamp: number): number {
+    if (this.startTime === null) return 0;
+    return Math.min(1, (timestamp - this.startTime) / this.durationMs);
+  }
+
+  getSamples(): number[][] {
+    return this.samples;
+  }
+}
+
+/**
+ * Per-hand debouncing of custom pose matches, same idea as GestureTracker
+ */
+export class CustomPoseTracker {
+  private active: CustomPoseState | null = null;
+  private pending: string | null = null;
+  private pendingSince = 0;
+  private releaseSince: number | null = null;
+
+  constructor(
+    private classifier: PoseClassifier,
+    private minHoldMs: number = 150,
+    private releaseMs: number = 200,
+    private minConfidence: number = 0.5
+  ) {}
+
+  update(
+    landmarks: Vector3[] | null,
+    time: number,
+    handedness: Handedness,
+    position: Vector3
+  ): CustomPoseEvent[] {
+    const events: CustomPoseEvent[] = [];
+    const rawMatch = landmarks ? this.classifier.classify(landmarks) : null;
+    const match = rawMatch && rawMatch.confidence >= this.minConfidence ? rawMatch : null;
+
+    // === RELEASE ===
+    if (this.active) {
+      if (match?.poseId === this.active.poseId) {
+        this.active.confidence = match.confidence;
+        this.releaseSince = null;
+      } else {
+        if (this.releaseSince === null) this.releaseSince = time;
+        if (time - this.releaseSince >= this.releaseMs) {
+          events.push({
+            type: 'customPoseEnd',
+            poseId: this.active.poseId,
+            name: this.active.name,
+            handedness,
+            duration: time - this.active.since,
+            timestamp: time,
+          });
+          this.active = null;
+          this.releaseSince = null;
+        }
+      }
+    }
+
+    // === ENTRY ===
+    if (!this.active) {
+      if (!match) {
+        this.pending = null;
+      } else if (match.poseId !== this.pending) {
+        this.pending = match.poseId;
+        this.pendingSince = time;
+      } else if (time - this.pendingSince >= this.minHoldMs) {
+        this.active = { poseId: match.poseId, name: match.name, confidence: match.confidence, since: time };
+        this.pending = null;
+        events.push({
+          type: 'customPoseStart',
+          poseId: match.poseId,
+          name: match.name,
+          color: this.classifier.getPose(match.poseId)?.color ?? '#ffffff',
+          handedness,
+          confidence: match.confidence,
+          timestamp: time,
+          position: { ...position },
+        });
+      }
+    }
+
+    return events;
+  }
+
+  getActive(): CustomPoseState | null {
+    return this.active ? { ...this.active } : null;
+  }
+
+  reset() {
+    this.active = null;
+    this.pending = null;
+    this.releaseSince = null;
+  }
+}
+
+export const downloadPoseLibrary = (classifier: PoseClassifier = poseClassifier) =>
+  downloadJSON(classifier.exportJSON(), 'etherial-poses.json');
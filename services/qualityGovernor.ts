@@ -0,0 +1,120 @@
+/**
+ * Quality Governor
+ *
+ * Watches the render loop's frame times and picks the quality tier to draw.
+ * With adaptive quality on it steps down after a couple of slow seconds and
+ * back up after a longer run of fast ones. A step up that turns out too
+ * slow makes the next attempt wait twice as long, so it settles instead of
+ * flipping between two tiers.
+ *
+ * Frames are timed by the render loop, so at vsync a fast GPU reads as
+ * "fast enough", never as "has headroom" - hence probing upward.
+ */
+
+import { QUALITY_TIERS, QualitySettings, QualityTier, qualitySettings, tierIndex } from './qualitySettings';
+
+export interface QualityState {
+  level: number;             // Index into QUALITY_TIERS
+  tier: QualityTier;
+  adaptive: boolean;
+}
+
+type QualityListener = (state: QualityState) => void;
+
+const WINDOW_S = 1;                  // Frame times are averaged per window
+const SLOW_FRAME_S = 1 / 45;         // Average above this = slow window
+const FAST_FRAME_S = 1 / 55;         // Average below this = fast window
+const SLOW_WINDOWS = 2;              // Slow windows in a row before stepping down
+const FAST_WINDOWS_MIN = 4;          // Fast windows in a row before stepping up...
+const FAST_WINDOWS_MAX = 64;         // ...doubling after each failed step up
+const PROBATION_S = 10;              // A step down this soon after a step up = it failed
+const MAX_SAMPLE_S = 0.25;           // Longer frames are hitches or a hidden tab, not load
+
+export class QualityGovernor {
+  private settings: QualitySettings = qualitySettings.get();
+  private level = tierIndex(this.settings.tier);
+  private listeners = new Set<QualityListener>();
+
+  private clock = 0;                 // Seconds of rendered frames
+  private windowTime = 0;
+  private windowFrames = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private fastWindowsNeeded = FAST_WINDOWS_MIN;
+  private lastStepUpAt = -Infinity;
+  private frameTime = 0;             // Smoothed, for display
+
+  constructor() {
+    qualitySettings.subscribe(this.applySettings);
+  }
+
+  get(): QualityState {
+    return { level: this.level, tier: QUALITY_TIERS[this.level], adaptive: this.settings.adaptive };
+  }
+
+  // Smoothed frame rate of the render loop
+  getFrameRate(): number {
+    return this.frameTime > 0 ? 1 / this.frameTime : 0;
+  }
+
+  // Notified when the tier in use changes
+  subscribe(listener: QualityListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Call once per rendered frame with its duration (s)
+   */
+  recordFrame(delta: number) {
+    if (delta <= 0 || delta > MAX_SAMPLE_S) return;
+    this.clock += delta;
+    this.frameTime = this.frameTime > 0 ? this.frameTime + (delta - this.frameTime) * 0.05 : delta;
+    if (!this.settings.adaptive) return;
+
+    this.windowTime += delta;
+    this.windowFrames++;
+    if (this.windowTime < WINDOW_S) return;
+    const average = this.windowTime / this.windowFrames;
+    this.windowTime = 0;
+    this.windowFrames = 0;
+
+    this.slowWindows = average > SLOW_FRAME_S ? this.slowWindows + 1 : 0;
+    this.fastWindows = average < FAST_FRAME_S ? this.fastWindows + 1 : 0;
+
+    if (this.slowWindows >= SLOW_WINDOWS && this.level > 0) {
+      if (this.clock - this.lastStepUpAt < PROBATION_S) {
+        this.fastWindowsNeeded = Math.min(FAST_WINDOWS_MAX, this.fastWindowsNeeded * 2);
+      }
+      this.setLevel(this.level - 1);
+    } else if (this.fastWindows >= this.fastWindowsNeeded && this.level < tierIndex(this.settings.tier)) {
+      this.lastStepUpAt = this.clock;
+      this.setLevel(this.level + 1);
+    }
+  }
+
+  private applySettings = (settings: QualitySettings) => {
+    const ceiling = tierIndex(settings.tier);
+    const changedTier = settings.tier !== this.settings.tier || settings.adaptive !== this.settings.adaptive;
+    this.settings = settings;
+    if (!changedTier) return;
+    // A new choice starts over from the chosen tier
+    this.fastWindowsNeeded = FAST_WINDOWS_MIN;
+    this.lastStepUpAt = -Infinity;
+    this.setLevel(ceiling);
+  };
+
+  private setLevel(level: number) {
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    this.windowTime = 0;
+    this.windowFrames = 0;
+    if (level === this.level) return;
+    this.level = level;
+    const state = this.get();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Fed by `ParticleSystem`, read by the canvas (dpr) and the particle system
+export const qualityGovernor = new QualityGovernor();
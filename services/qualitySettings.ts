@@ -0,0 +1,52 @@
+/**
+ * Render Quality Settings
+ *
+ * One particle budget for the whole app, and the quality tiers that use a
+ * part of it. `qualityGovernor` picks the tier actually drawn: the selected
+ * one, or - when adaptive - the best one up to it that holds the frame rate.
+ */
+
+import { MAX_EFFECTS } from './particleShaders';
+import { booleanOr, createSettingsStore, oneOf } from './settingsStore';
+
+export const PARTICLE_TEXTURE_SIZE = 512;                            // Simulation texture is size x size
+export const PARTICLE_BUDGET = PARTICLE_TEXTURE_SIZE * PARTICLE_TEXTURE_SIZE;  // 262,144
+
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  particles: number;         // Simulated and drawn, at most PARTICLE_BUDGET
+  dpr: number;               // Max device pixel ratio of the canvas
+  effects: number;           // One-shot effects applied at once
+}
+
+// Lowest to highest - the governor steps through them in this order
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', label: 'Baixa', particles: PARTICLE_BUDGET / 8, dpr: 1, effects: 2 },
+  { id: 'medium', label: 'Média', particles: PARTICLE_BUDGET / 4, dpr: 1.25, effects: 4 },
+  { id: 'high', label: 'Alta', particles: PARTICLE_BUDGET / 2, dpr: 1.5, effects: 6 },
+  { id: 'ultra', label: 'Ultra', particles: PARTICLE_BUDGET, dpr: 2, effects: MAX_EFFECTS },
+];
+
+export const tierIndex = (id: QualityTierId) => Math.max(0, QUALITY_TIERS.findIndex(t => t.id === id));
+
+export interface QualitySettings {
+  tier: QualityTierId;       // Fixed tier, or the ceiling when adaptive
+  adaptive: boolean;         // Drop below `tier` when frames get slow
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  tier: 'ultra',
+  adaptive: true,
+};
+
+export const qualitySettings = createSettingsStore<QualitySettings>(
+  'etherial.quality',
+  DEFAULT_QUALITY_SETTINGS,
+  (settings) => ({
+    tier: oneOf(settings.tier, QUALITY_TIERS.map(t => t.id), DEFAULT_QUALITY_SETTINGS.tier),
+    adaptive: booleanOr(settings.adaptive, DEFAULT_QUALITY_SETTINGS.adaptive),
+  })
+);
@@ -0,0 +1,194 @@
+import { BaseInputSource } from './inputSource';
+import { MultiHandProcessor } from './multiHandProcessor';
+import { RecordedSession, frameToDetections } from './sessionRecording';
+
+export interface PlaybackState {
+  loaded: boolean;
+  playing: boolean;
+  position: number;          // Milliseconds
+  duration: number;          // Milliseconds
+  speed: number;             // 1 = original timing
+  loop: boolean;
+}
+
+type PlaybackListener = (state: PlaybackState) => void;
+
+/**
+ * Replays a recorded landmark session through the metrics pipeline
+ *
+ * Frames are fed to the extractors at their original timing (scaled by
+ * `speed`), so effects see exactly the motion that was recorded.
+ */
+export class ReplayInputSource extends BaseInputSource {
+  private processor = new MultiHandProcessor();
+  private session: RecordedSession | null = null;
+  private playbackListeners = new Set<PlaybackListener>();
+
+  private started = false;
+  private playing = false;
+  private speed = 1;
+  private loop = true;
+  private nextIndex = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Playhead clock: position = anchorPosition + (now - anchorTime) * speed
+  private anchorPosition = 0;
+  private anchorTime = 0;
+
+  async start() {
+    this.started = true;
+    this.setStatus('running');
+    if (this.session) {
+      this.seek(0);
+      this.play();
+    } else {
+      this.emit(this.processor.process([]));
+    }
+  }
+
+  stop() {
+    this.pause();
+    this.started = false;
+    this.processor.reset();
+    this.setStatus('idle');
+  }
+
+  load(session: RecordedSession) {
+    this.pause();
+    this.session = session;
+    this.seek(0);
+    if (this.started) this.play();
+  }
+
+  play() {
+    if (!this.session || this.playing) return;
+    if (this.nextIndex >= this.session.frames.length) this.seek(0);
+    this.playing = true;
+    this.anchorTime = performance.now();
+    this.scheduleNext();
+    this.notify();
+  }
+
+  pause() {
+    if (this.playing) {
+      this.anchorPosition = this.getPosition();
+      this.playing = false;
+    }
+    this.clearTimer();
+    this.notify();
+  }
+
+  /**
+   * Jump to a position (ms). The extractors are reset so smoothing does not
+   * drag the hand across the jump.
+   */
+  seek(position: number) {
+    if (!this.session) return;
+    const frames = this.session.frames;
+    const target = Math.max(0, Math.min(this.session.duration, position));
+
+    this.clearTimer();
+    this.processor.reset();
+
+    let index = 0;
+    while (index < frames.length && frames[index].t <= target) index++;
+
+    this.anchorPosition = target;
+    this.anchorTime = performance.now();
+    this.nextIndex = index;
+
+    // Show the frame under the playhead immediately
+    if (index > 0) this.emitFrame(index - 1, 0.016);
+
+    if (this.playing) this.scheduleNext();
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    this.anchorPosition = this.getPosition();
+    this.anchorTime = performance.now();
+    this.speed = speed;
+    if (this.playing) {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+    this.notify();
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    this.notify();
+  }
+
+  getPosition(): number {
+    if (!this.playing) return this.anchorPosition;
+    return this.anchorPosition + (performance.now() - this.anchorTime) * this.speed;
+  }
+
+  getPlaybackState(): PlaybackState {
+    return {
+      loaded: this.session !== null,
+      playing: this.playing,
+      position: Math.min(this.getPosition(), this.session?.duration ?? 0),
+      duration: this.session?.duration ?? 0,
+      speed: this.speed,
+      loop: this.loop,
+    };
+  }
+
+  onPlaybackChange(listener: PlaybackListener): () => void {
+    this.playbackListeners.add(listener);
+    return () => this.playbackListeners.delete(listener);
+  }
+
+  private scheduleNext() {
+    if (!this.session) return;
+    const frames = this.session.frames;
+
+    if (this.nextIndex >= frames.length) {
+      if (this.loop && frames.length > 0) {
+        this.processor.reset();
+        this.nextIndex = 0;
+        this.anchorPosition = 0;
+        this.anchorTime = performance.now();
+      } else {
+        this.anchorPosition = this.session.duration;
+        this.playing = false;
+        this.notify();
+        return;
+      }
+    }
+
+    const delay = (frames[this.nextIndex].t - this.getPosition()) / this.speed;
+    this.timer = setTimeout(() => {
+      const index = this.nextIndex;
+      const previous = frames[index - 1];
+      const deltaTime = previous ? (frames[index].t - previous.t) / 1000 / this.speed : 0.016;
+      this.emitFrame(index, deltaTime);
+      this.nextIndex++;
+      this.notify();
+      this.scheduleNext();
+    }, Math.max(0, delay));
+  }
+
+  private emitFrame(index: number, deltaTime: number) {
+    if (!this.session) return;
+    const frame = this.session.frames[index];
+    const detections = frameToDetections(frame);
+    this.emitRaw(detections, frame.t);
+    this.emit(this.processor.process(detections, deltaTime));
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private notify() {
+    const state = this.getPlaybackState();
+    this.playbackListeners.forEach(listener => listener(state));
+  }
+}
+
+// The replay source outlives source switches so a loaded session is kept
+export const replaySource = new ReplayInputSource();
@@ -0,0 +1,131 @@
+/**
+ * Landmark Session Recording
+ *
+ * Captures the raw landmark frames a tracker delivers, with timestamps, so a
+ * performance can be saved to JSON and replayed through the same metrics
+ * pipeline later.
+ */
+
+import { Handedness } from './handMetrics';
+import { RawHandDetection } from './inputSource';
+import { Vector3Tuple } from '../types';
+import { downloadJSON } from './download';
+
+export const SESSION_FORMAT = 'etherial-hand-session';
+export const SESSION_FORMAT_VERSION = 1;
+
+export interface RecordedHand {
+  handedness: Handedness;
+  score: number;
+  landmarks: Vector3Tuple[];  // 21 x [x, y, z] in MediaPipe image coordinates
+}
+
+export interface RecordedFrame {
+  t: number;                  // Milliseconds since the start of the recording
+  hands: RecordedHand[];
+}
+
+export interface RecordedSession {
+  format: typeof SESSION_FORMAT;
+  version: typeof SESSION_FORMAT_VERSION;
+  createdAt: string;          // ISO date
+  duration: number;           // Milliseconds
+  frames: RecordedFrame[];
+}
+
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime: number | null = null;
+  private recording = false;
+
+  start() {
+    this.frames = [];
+    this.startTime = null;
+    this.recording = true;
+  }
+
+  record(detections: RawHandDetection[], timestamp: number) {
+    if (!this.recording) return;
+    if (this.startTime === null) this.startTime = timestamp;
+
+    this.frames.push({
+      t: Math.round((timestamp - this.startTime) * 10) / 10,
+      hands: detections.map(d => ({
+        handedness: d.handedness,
+        score: d.score,
+        landmarks: d.landmarks.map(l => [l.x, l.y, l.z] as Vector3Tuple),
+      })),
+    });
+  }
+
+  stop(): RecordedSession {
+    this.recording = false;
+    const frames = this.frames;
+    this.frames = [];
+
+    return {
+      format: SESSION_FORMAT,
+      version: SESSION_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+      frames,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+}
+
+/**
+ * Convert a recorded frame back into detections for the metrics pipeline
+ */
+export const frameToDetections = (frame: RecordedFrame): RawHandDetection[] =>
+  frame.hands.map(h => ({
+    handedness: h.handedness,
+    score: h.score,
+    landmarks: h.landmarks.map(([x, y, z]) => ({ x, y, z })),
+  }));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isValidHand = (hand: Partial<RecordedHand>): boolean =>
+  (hand?.handedness === 'Left' || hand?.handedness === 'Right') &&
+  isNumber(hand.score) &&
+  Array.isArray(hand.landmarks) && hand.landmarks.length === 21 &&
+  hand.landmarks.every(l => Array.isArray(l) && l.length === 3 && l.every(isNumber));
+
+/**
+ * Parse and validate a session file. Throws if the file is not a session,
+ * was written by an unsupported format version or has a malformed frame
+ * (frames out of order, hands without 21 [x, y, z] landmarks).
+ */
+export const parseSession = (json: string): RecordedSession => {
+  const data = JSON.parse(json);
+
+  if (data?.format !== SESSION_FORMAT || !Array.isArray(data.frames)) {
+    throw new Error('Arquivo não é uma sessão gravada');
+  }
+  if (data.version !== SESSION_FORMAT_VERSION) {
+    throw new Error(`Versão de sessão não suportada: ${data.version}`);
+  }
+
+  let lastT = 0;
+  (data.frames as Partial<RecordedFrame>[]).forEach((frame, i) => {
+    if (!isNumber(frame?.t) || frame.t < lastT || !Array.isArray(frame.hands) || !frame.hands.every(isValidHand)) {
+      throw new Error(`Quadro ${i + 1} da sessão é inválido`);
+    }
+    lastT = frame.t;
+  });
+  if (typeof data.createdAt !== 'string') data.createdAt = new Date().toISOString();
+  if (!isNumber(data.duration)) data.duration = lastT;
+
+  return data as RecordedSession;
+};
+
+export const downloadSession = (session: RecordedSession) =>
+  downloadJSON(JSON.stringify(session), `etherial-session-${session.createdAt.replace(/[:.]/g, '-')}.json`);
@@ -0,0 +1,83 @@
+/**
+ * Settings Stores
+ *
+ * A persisted store for one group of user preferences: the current values,
+ * change listeners and a copy in localStorage. Every value goes through the
+ * group's `sanitize` - on load and on update - so an entry from an older
+ * version or a hand-edited one falls back to its default instead of
+ * reaching the app.
+ */
+
+type SettingsListener<T> = (settings: T) => void;
+
+// Defaults overlaid with whatever was stored or passed in - any field may be junk
+export type UncheckedSettings<T> = { [K in keyof T]: unknown };
+
+export class SettingsStore<T extends object> {
+  private settings: T;
+  private listeners = new Set<SettingsListener<T>>();
+
+  constructor(
+    private key: string,
+    private defaults: T,
+    private sanitize: (settings: UncheckedSettings<T>) => T
+  ) {
+    this.settings = { ...defaults };
+  }
+
+  get(): T {
+    return this.settings;
+  }
+
+  update(changes: Partial<T>) {
+    this.settings = this.sanitize({ ...this.settings, ...changes });
+    try {
+      localStorage.setItem(this.key, JSON.stringify(this.settings));
+    } catch (err) {
+      console.warn(`Failed to save ${this.key}:`, err);
+    }
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+
+  subscribe(listener: SettingsListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  load() {
+    try {
+      const stored = localStorage.getItem(this.key);
+      if (stored) this.settings = this.sanitize({ ...this.defaults, ...JSON.parse(stored) });
+    } catch (err) {
+      console.warn(`Failed to load ${this.key}:`, err);
+    }
+  }
+}
+
+/**
+ * Store loaded from localStorage (when there is one)
+ */
+export const createSettingsStore = <T extends object>(
+  key: string,
+  defaults: T,
+  sanitize: (settings: UncheckedSettings<T>) => T
+): SettingsStore<T> => {
+  const store = new SettingsStore(key, defaults, sanitize);
+  if (typeof localStorage !== 'undefined') store.load();
+  return store;
+};
+
+// === SANITIZERS ===
+
+export const oneOf = <V>(value: unknown, options: readonly V[], fallback: V): V =>
+  options.includes(value as V) ? (value as V) : fallback;
+
+// Clamped into [min, max]; anything but a number falls back
+export const inRange = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const booleanOr = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+export const stringOr = (value: unknown, fallback: string): string =>
+  typeof value === 'string' ? value : fallback;
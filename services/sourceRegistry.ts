@@ -0,0 +1,94 @@
+/**
+ * Built-in input sources
+ *
+ * Import this module once (from `App`) to make the built-in sources
+ * available in the picker. Add new sources here.
+ */
+
+import { registerInputSource } from './inputSource';
+import { CameraInputSource } from './cameraSource';
+import { MouseInputSource } from './mouseSource';
+import { KeyboardInputSource } from './keyboardSource';
+import { GamepadInputSource } from './gamepadSource';
+import { TouchInputSource } from './touchSource';
+import { ExternalInputSource } from './externalSource';
+import { replaySource } from './replaySource';
+
+registerInputSource({
+  id: 'camera',
+  label: 'Câmera',
+  icon: '📷',
+  simulated: false,
+  idleText: 'Mostre sua mão para a câmera',
+  create: () => new CameraInputSource(),
+});
+
+registerInputSource({
+  id: 'external',
+  label: 'Externo',
+  icon: '🛰️',
+  simulated: false,
+  idleText: 'Aguardando o rastreador externo',
+  create: () => new ExternalInputSource(),
+});
+
+registerInputSource({
+  id: 'mouse',
+  label: 'Mouse',
+  icon: '🎮',
+  simulated: true,
+  hint: 'Clique esquerdo = Pinça • Direito = Garra • Roda = Dispersão',
+  idleText: 'Mova o mouse e use os botões',
+  create: () => new MouseInputSource(),
+});
+
+registerInputSource({
+  id: 'keyboard',
+  label: 'Teclado',
+  icon: '⌨️',
+  simulated: true,
+  hint: 'Teclas configuráveis no painel',
+  idleText: 'Use as teclas para mover a mão',
+  create: () => new KeyboardInputSource(),
+});
+
+registerInputSource({
+  id: 'gamepad',
+  label: 'Controle',
+  icon: '🕹️',
+  simulated: true,
+  hint: 'Analógicos = Mão • Gatilhos = Pinça/Garra',
+  idleText: 'Conecte um controle e aperte um botão',
+  create: () => new GamepadInputSource(),
+});
+
+registerInputSource({
+  id: 'touch',
+  label: 'Toque',
+  icon: '👆',
+  simulated: true,
+  hint: 'Arraste = Mão • Dois dedos = Pinça/Inclinar • Três = Garra • Toque = Energia',
+  idleText: 'Toque e arraste na tela',
+  create: () => new TouchInputSource(),
+});
+
+registerInputSource({
+  id: 'replay',
+  label: 'Gravação',
+  icon: '⏯️',
+  simulated: true,
+  hint: 'Reproduzindo sessão gravada',
+  idleText: 'Carregue uma sessão gravada',
+  create: () => replaySource,
+});
+
+export const CAMERA_SOURCE_ID = 'camera';
+export const EXTERNAL_SOURCE_ID = 'external';
+export const DEFAULT_SOURCE_ID = CAMERA_SOURCE_ID;
+export const SIMULATION_SOURCE_ID = 'mouse';
+export const KEYBOARD_SOURCE_ID = 'keyboard';
+export const GAMEPAD_SOURCE_ID = 'gamepad';
+export const TOUCH_SOURCE_ID = 'touch';
+export const REPLAY_SOURCE_ID = 'replay';
+
+export { getInputSources, getInputSource } from './inputSource';
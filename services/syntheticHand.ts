@@ -0,0 +1,186 @@
+/**
+ * Kinematic Synthetic Hand
+ *
+ * Turns a handful of pose parameters into 21 plausible MediaPipe landmarks
+ * with simple forward kinematics. Simulated sources feed these landmarks to
+ * `HandMetricsExtractor`, so simulation runs the same code path as the camera.
+ */
+
+import { Handedness } from './handMetrics';
+import { HandLandmark, Vector3 } from '../types';
+import { CalibrationProfile, calibrationStore } from './calibration';
+
+export interface SyntheticHandPose {
+  // Per-finger curl, 0 = straight, 1 = fully curled [thumb, index, middle, ring, pinky]
+  curls: [number, number, number, number, number];
+  spread: number;            // 0 = fingers together, 1 = spread apart
+  pinch: number;             // 0 = free, 1 = thumb and index tips touching
+
+  // Wrist rotation (radians)
+  roll: number;              // In the image plane, 0 = fingers up
+  yaw: number;               // Around the vertical axis, palm turning sideways
+  pitch: number;             // Around the horizontal axis, fingers tilting toward the camera
+
+  position: { x: number; y: number };  // Wrist position, normalized -1 to 1 (y up)
+  depth: number;             // Same scale as the `depth` metric (0 = reference, -1 = close, 1 = far)
+  handedness: Handedness;
+}
+
+export const createNeutralPose = (): SyntheticHandPose => ({
+  curls: [0.1, 0.1, 0.1, 0.1, 0.1],
+  spread: 0.4,
+  pinch: 0,
+  roll: 0,
+  yaw: 0,
+  pitch: 0,
+  position: { x: 0, y: -0.3 },
+  depth: 0,
+  handedness: 'Right',
+});
+
+// Hand model in palm units (wrist -> middle MCP = 1). Local frame:
+// x toward the pinky, y toward the fingers, z toward the back of the hand
+// (MediaPipe z, negative = closer to the camera).
+interface FingerModel {
+  base: number[];            // Landmark indices, MCP (or CMC) first
+  root: Vector3;             // Position of the first joint
+  segments: number[];        // Bone lengths
+  splay: number;             // In-plane splay angle, scaled by spread
+  flex: number[];            // Max flexion per joint
+}
+
+const FINGERS: FingerModel[] = [
+  {
+    base: [HandLandmark.THUMB_CMC, HandLandmark.THUMB_MCP, HandLandmark.THUMB_IP, HandLandmark.THUMB_TIP],
+    root: { x: -0.3, y: 0.25, z: -0.05 },
+    segments: [0.4, 0.33, 0.28],
+    splay: -0.75,
+    flex: [0.5, 0.7, 0.9],
+  },
+  {
+    base: [HandLandmark.INDEX_FINGER_MCP, HandLandmark.INDEX_FINGER_PIP, HandLandmark.INDEX_FINGER_DIP, HandLandmark.INDEX_FINGER_TIP],
+    root: { x: -0.35, y: 0.95, z: 0 },
+    segments: [0.45, 0.27, 0.22],
+    splay: -0.25,
+    flex: [1.4, 1.6, 1.1],
+  },
+  {
+    base: [HandLandmark.MIDDLE_FINGER_MCP, HandLandmark.MIDDLE_FINGER_PIP, HandLandmark.MIDDLE_FINGER_DIP, HandLandmark.MIDDLE_FINGER_TIP],
+    root: { x: 0, y: 1, z: 0 },
+    segments: [0.5, 0.3, 0.23],
+    splay: 0,
+    flex: [1.4, 1.6, 1.1],
+  },
+  {
+    base: [HandLandmark.RING_FINGER_MCP, HandLandmark.RING_FINGER_PIP, HandLandmark.RING_FINGER_DIP, HandLandmark.RING_FINGER_TIP],
+    root: { x: 0.3, y: 0.92, z: 0 },
+    segments: [0.46, 0.28, 0.22],
+    splay: 0.2,
+    flex: [1.4, 1.6, 1.1],
+  },
+  {
+    base: [HandLandmark.PINKY_MCP, HandLandmark.PINKY_PIP, HandLandmark.PINKY_DIP, HandLandmark.PINKY_TIP],
+    root: { x: 0.55, y: 0.78, z: 0 },
+    segments: [0.36, 0.22, 0.2],
+    splay: 0.4,
+    flex: [1.4, 1.6, 1.1],
+  },
+];
+
+const lerpVec = (a: Vector3, b: Vector3, t: number): Vector3 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t,
+});
+
+/**
+ * Generate 21 landmarks in MediaPipe image coordinates (x, y in 0-1, y down)
+ */
+export const generateHandLandmarks = (
+  pose: SyntheticHandPose,
+  calibration: CalibrationProfile = calibrationStore.getActive()  // Same profile the extractor applies
+): Vector3[] => {
+  const local: Vector3[] = new Array(21);
+  local[HandLandmark.WRIST] = { x: 0, y: 0, z: 0 };
+
+  // Below ~0.4 spread the fingers converge so their tips touch
+  const spreadFactor = -1 + pose.spread * 2.5;
+
+  FINGERS.forEach((finger, f) => {
+    const curl = Math.min(1, Math.max(0, pose.curls[f]));
+    const isThumb = f === 0;
+    const splay = finger.splay * (isThumb ? 0.6 + pose.spread * 0.4 : spreadFactor);
+
+    // Straight direction in the palm plane, and the direction flexion bends toward
+    const straight = { x: Math.sin(splay), y: Math.cos(splay), z: 0 };
+    const bend = isThumb
+      ? { x: 0.6, y: 0, z: -0.8 }   // Thumb folds across the palm
+      : { x: 0, y: 0, z: -1 };      // Fingers fold toward the palm side
+
+    let joint = finger.root;
+    let angle = 0;
+    local[finger.base[0]] = joint;
+
+    finger.segments.forEach((length, s) => {
+      angle += finger.flex[s] * curl;
+      const dir = {
+        x: straight.x * Math.cos(angle) + bend.x * Math.sin(angle),
+        y: straight.y * Math.cos(angle) + bend.y * Math.sin(angle),
+        z: straight.z * Math.cos(angle) + bend.z * Math.sin(angle),
+      };
+      joint = {
+        x: joint.x + dir.x * length,
+        y: joint.y + dir.y * length,
+        z: joint.z + dir.z * length,
+      };
+      local[finger.base[s + 1]] = joint;
+    });
+  });
+
+  // Pinch pulls the thumb and index tips together
+  if (pose.pinch > 0) {
+    const thumbTip = local[HandLandmark.THUMB_TIP];
+    const indexTip = local[HandLandmark.INDEX_FINGER_TIP];
+    const meet = lerpVec(thumbTip, indexTip, 0.5);
+    const p = Math.min(1, pose.pinch);
+    local[HandLandmark.THUMB_TIP] = lerpVec(thumbTip, meet, p);
+    local[HandLandmark.INDEX_FINGER_TIP] = lerpVec(indexTip, meet, p);
+    local[HandLandmark.THUMB_IP] = lerpVec(local[HandLandmark.THUMB_IP], meet, p * 0.4);
+    local[HandLandmark.INDEX_FINGER_DIP] = lerpVec(local[HandLandmark.INDEX_FINGER_DIP], meet, p * 0.4);
+  }
+
+  // Wrist rotation: roll (z) * yaw (y) * pitch (x)
+  const cr = Math.cos(pose.roll), sr = Math.sin(pose.roll);
+  const cy = Math.cos(pose.yaw), sy = Math.sin(pose.yaw);
+  const cp = Math.cos(pose.pitch), sp = Math.sin(pose.pitch);
+
+  // Apparent size from depth (inverse of the depth estimate in HandMetricsExtractor)
+  const { refHandSize, depthScale } = calibration;
+  const depth = Math.max(-depthScale * 0.8, pose.depth);
+  const scale = refHandSize / (1 + depth / depthScale);
+  const mirror = pose.handedness === 'Left' ? -1 : 1;
+
+  const wristX = 0.5 + pose.position.x / 2;
+  const wristY = 0.5 - pose.position.y / 2;
+
+  return local.map((p) => {
+    // Pitch
+    let x = p.x;
+    let y = p.y * cp - p.z * sp;
+    let z = p.y * sp + p.z * cp;
+    // Yaw
+    const x1 = x * cy + z * sy;
+    z = -x * sy + z * cy;
+    x = x1;
+    // Roll
+    const x2 = x * cr - y * sr;
+    y = x * sr + y * cr;
+    x = x2;
+
+    return {
+      x: wristX + x * mirror * scale,
+      y: wristY - y * scale,
+      z: z * scale,
+    };
+  });
+};
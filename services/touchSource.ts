@@ -0,0 +1,152 @@
+import { ControlState, ControllerInputSource, createNeutralControls } from './controllerSource';
+
+const PINCH_CLOSE_RATIO = 0.4;         // Fingers at 40% of their starting distance = full pinch
+const MAX_ROTATION = Math.PI / 2;      // Two-finger twist for full tilt
+const GRIP_FINGERS = 3;
+const TAP_MAX_MS = 250;                // Longer contacts are holds, not taps
+const TAP_SLOP_PX = 12;                // Taps may wander this far
+const TAP_ENERGY = 0.35;               // Energy from the sharpest possible tap
+
+interface TouchPoint {
+  x: number;                 // Client pixels
+  y: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+}
+
+// Two-finger gesture measured from where it began
+interface TwoFingerGesture {
+  startDistance: number;
+  lastAngle: number;
+  rotation: number;          // Accumulated radians, unwrapped
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const toNormalized = (x: number, y: number) => ({
+  x: (x / window.innerWidth - 0.5) * 2,
+  y: -(y / window.innerHeight - 0.5) * 2,
+});
+
+/**
+ * Touch screen as an input source (Pointer Events, touch pointers only)
+ *
+ * Touch controls:
+ * - One-finger drag = position
+ * - Two fingers = position at their midpoint, pinching them together =
+ *   pinch, twisting them = palm tilt
+ * - Three fingers held = grip
+ * - Quick taps = energy (the shorter the contact, the stronger)
+ *
+ * The hand stays where the last finger left it.
+ */
+export class TouchInputSource extends ControllerInputSource {
+  private touches = new Map<number, TouchPoint>();
+  private gesture: TwoFingerGesture | null = null;
+  private position = { x: createNeutralControls().x, y: createNeutralControls().y };
+  private pendingImpulse = 0;
+
+  protected attach() {
+    window.addEventListener('pointerdown', this.handlePointerDown);
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+    window.addEventListener('pointercancel', this.handlePointerCancel);
+  }
+
+  protected detach() {
+    window.removeEventListener('pointerdown', this.handlePointerDown);
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.touches.clear();
+    this.gesture = null;
+    this.position = { x: createNeutralControls().x, y: createNeutralControls().y };
+    this.pendingImpulse = 0;
+  }
+
+  protected readControls(): ControlState {
+    const points = [...this.touches.values()];
+    const controls: ControlState = { ...createNeutralControls(), ...this.position };
+
+    if (points.length === 1) {
+      Object.assign(controls, toNormalized(points[0].x, points[0].y));
+    } else if (points.length >= 2) {
+      const [a, b] = points;
+      Object.assign(controls, toNormalized((a.x + b.x) / 2, (a.y + b.y) / 2));
+
+      if (this.gesture && points.length === 2) {
+        const distance = Math.hypot(b.x - a.x, b.y - a.y);
+        const closed = 1 - distance / this.gesture.startDistance;
+        controls.pinch = clamp01(closed / (1 - PINCH_CLOSE_RATIO));
+        controls.tilt = Math.max(-1, Math.min(1, this.gesture.rotation / MAX_ROTATION));
+      }
+    }
+    if (points.length >= GRIP_FINGERS) controls.grip = 1;
+
+    this.position = { x: controls.x, y: controls.y };
+    controls.impulse = this.pendingImpulse;
+    this.pendingImpulse = 0;
+    return controls;
+  }
+
+  // The first two fingers define the pinch and twist
+  private startGesture() {
+    const [a, b] = [...this.touches.values()];
+    this.gesture = a && b && this.touches.size === 2
+      ? {
+          startDistance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+          lastAngle: Math.atan2(b.y - a.y, b.x - a.x),
+          rotation: 0,
+        }
+      : null;
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    this.touches.set(e.pointerId, {
+      x: e.clientX, y: e.clientY,
+      startX: e.clientX, startY: e.clientY,
+      startTime: performance.now(),
+    });
+    this.startGesture();
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const touch = this.touches.get(e.pointerId);
+    if (!touch) return;
+    touch.x = e.clientX;
+    touch.y = e.clientY;
+
+    if (this.gesture && this.touches.size === 2) {
+      const [a, b] = [...this.touches.values()];
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      // Unwrap so a twist through ±180° keeps counting
+      let delta = angle - this.gesture.lastAngle;
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      // Screen y points down, so a clockwise twist reads positive
+      this.gesture.rotation += delta;
+      this.gesture.lastAngle = angle;
+    }
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    const touch = this.touches.get(e.pointerId);
+    if (!touch) return;
+
+    const duration = performance.now() - touch.startTime;
+    const travel = Math.hypot(touch.x - touch.startX, touch.y - touch.startY);
+    if (duration < TAP_MAX_MS && travel < TAP_SLOP_PX) {
+      this.pendingImpulse = clamp01(this.pendingImpulse + (1 - duration / TAP_MAX_MS) * TAP_ENERGY);
+    }
+
+    this.touches.delete(e.pointerId);
+    this.startGesture();
+  };
+
+  private handlePointerCancel = (e: PointerEvent) => {
+    this.touches.delete(e.pointerId);
+    this.startGesture();
+  };
+}
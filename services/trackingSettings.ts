@@ -0,0 +1,52 @@
+/**
+ * Tracking Settings
+ *
+ * User preferences that apply to every hand source. Processors read the
+ * current values each frame, so changes take effect without restarting
+ * the source.
+ */
+
+import { booleanOr, createSettingsStore, inRange } from './settingsStore';
+import { DEFAULT_METRIC_FILTERS, MetricFilterConfig, SmoothedMetric } from './handMetrics';
+import { sanitizeFilterSpec } from './filters';
+
+export const MAX_PREDICTION_AMOUNT = 1.5;
+export const MAX_GRACE_PERIOD = 1;   // Seconds - longer and a hand that left keeps drifting on screen
+
+export interface TrackingSettings {
+  predictionAmount: number;  // Fraction of the measured latency to predict ahead (0 = off)
+  mirror: boolean;           // Show camera input like a mirror (video, landmarks and metrics)
+  gracePeriod: number;       // Seconds a lost hand is extrapolated before it counts as gone
+  filters: Partial<MetricFilterConfig>;  // Per-metric filters replacing DEFAULT_METRIC_FILTERS
+}
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  predictionAmount: 1,
+  mirror: true,
+  gracePeriod: 0.25,
+  filters: {},
+};
+
+// Only known metrics with valid specs - the rest keep their default filter
+const sanitizeFilters = (value: unknown): Partial<MetricFilterConfig> => {
+  const filters: Partial<MetricFilterConfig> = {};
+  if (typeof value !== 'object' || value === null) return filters;
+  (Object.keys(DEFAULT_METRIC_FILTERS) as SmoothedMetric[]).forEach((metric) => {
+    const spec = sanitizeFilterSpec((value as Record<string, unknown>)[metric]);
+    if (spec) filters[metric] = spec;
+  });
+  return filters;
+};
+
+export const trackingSettings = createSettingsStore<TrackingSettings>(
+  'etherial.trackingSettings',
+  DEFAULT_TRACKING_SETTINGS,
+  (settings) => ({
+    predictionAmount: inRange(settings.predictionAmount, 0, MAX_PREDICTION_AMOUNT, DEFAULT_TRACKING_SETTINGS.predictionAmount),
+    mirror: booleanOr(settings.mirror, DEFAULT_TRACKING_SETTINGS.mirror),
+    gracePeriod: inRange(settings.gracePeriod, 0, MAX_GRACE_PERIOD, DEFAULT_TRACKING_SETTINGS.gracePeriod),
+    filters: sanitizeFilters(settings.filters),
+  })
+);
+
+export type TrackingSettingsStore = typeof trackingSettings;
@@ -0,0 +1,13 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './App.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        'cyber-cyan': '#00ffff',
+        'cyber-magenta': '#ff00ff',
+        'cyber-yellow': '#ffff00',
+      },
+    },
+  },
+};
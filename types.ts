@@ -19,6 +19,19 @@ export enum GestureType {
   SPIDERMAN = 'spiderman',      // Thumb + Pinky + Index - Web effect
 }
 
+// Motion Types - Movement patterns recognized over time (not poses)
+export enum MotionType {
+  SWIPE_LEFT = 'swipe_left',
+  SWIPE_RIGHT = 'swipe_right',
+  SWIPE_UP = 'swipe_up',
+  SWIPE_DOWN = 'swipe_down',
+  CIRCLE_CW = 'circle_cw',
+  CIRCLE_CCW = 'circle_ccw',
+  SHAKE = 'shake',
+  PUSH = 'push',                // Toward the camera - Shockwave
+  PULL = 'pull',                // Away from the camera - Collapse
+}
+
 // All 21 MediaPipe hand landmarks
 export enum HandLandmark {
   WRIST = 0,
@@ -137,3 +150,60 @@ export const GESTURE_EFFECTS: Record<GestureType, GestureEffect> = {
     description: 'Conexões magnéticas'
   },
 };
+
+export const MOTION_EFFECTS: Record<MotionType, GestureEffect> = {
+  [MotionType.SWIPE_LEFT]: {
+    name: 'Rajada',
+    icon: '⬅️',
+    color: '#66CCFF',
+    description: 'Forma anterior'
+  },
+  [MotionType.SWIPE_RIGHT]: {
+    name: 'Rajada',
+    icon: '➡️',
+    color: '#66CCFF',
+    description: 'Próxima forma'
+  },
+  [MotionType.SWIPE_UP]: {
+    name: 'Rajada',
+    icon: '⬆️',
+    color: '#66CCFF',
+    description: 'Sopro ascendente'
+  },
+  [MotionType.SWIPE_DOWN]: {
+    name: 'Rajada',
+    icon: '⬇️',
+    color: '#66CCFF',
+    description: 'Sopro descendente'
+  },
+  [MotionType.CIRCLE_CW]: {
+    name: 'Redemoinho',
+    icon: '🔃',
+    color: '#00FFCC',
+    description: 'Giro horário'
+  },
+  [MotionType.CIRCLE_CCW]: {
+    name: 'Redemoinho',
+    icon: '🔄',
+    color: '#00FFCC',
+    description: 'Giro anti-horário'
+  },
+  [MotionType.SHAKE]: {
+    name: 'Tremor',
+    icon: '〰️',
+    color: '#FFAA00',
+    description: 'Dispersão caótica'
+  },
+  [MotionType.PUSH]: {
+    name: 'Onda de Choque',
+    icon: '💥',
+    color: '#FFFFFF',
+    description: 'Empurrão em direção à câmera'
+  },
+  [MotionType.PULL]: {
+    name: 'Colapso',
+    icon: '🌀',
+    color: '#AA66FF',
+    description: 'Puxão para longe da câmera'
+  },
+};
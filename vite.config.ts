@@ -1,7 +1,33 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// MediaPipe loads its WASM runtime by URL, so serve it from the app (see services/handLandmarker.ts)
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm';
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+
+const mediapipeWasm = (): Plugin => ({
+  name: 'mediapipe-wasm',
+  configureServer(server) {
+    server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url ?? '').split('?')[0]));
+      if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    fs.readdirSync(MEDIAPIPE_WASM_DIR).forEach((file) => {
+      this.emitFile({
+        type: 'asset',
+        fileName: `${MEDIAPIPE_WASM_URL.slice(1)}/${file}`,
+        source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, file)),
+      });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +35,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)